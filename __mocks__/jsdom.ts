@@ -0,0 +1,7 @@
+// jsdom loads its esm dependencies with require, which the esm module
+// loader of jest does not support. The tests never run the audits.
+export class JSDOM {
+    constructor() {
+        throw new Error('jsdom is not available in the tests');
+    }
+}
@@ -1,10 +1,16 @@
 /** @type {import('ts-jest').JestConfigWithTsJest} **/
 export default {
   testEnvironment: "node",
+  // the sources are esm modules reading import.meta
+  extensionsToTreatAsEsm: [".ts"],
   transform: {
-    "^.+\.tsx?$": ["ts-jest", {}],
+    "^.+\.tsx?$": ["ts-jest", { useESM: true }],
   },
   moduleNameMapper: {
-    '^xxhash-wasm$': '__mocks__/xxhash-wasm.ts'
+    '^xxhash-wasm$': '<rootDir>/__mocks__/xxhash-wasm.ts',
+    '^jsdom$': '<rootDir>/__mocks__/jsdom.ts',
+    // the sources import the ts files with their .js suffix
+    '^@/(.*)\\.js$': '<rootDir>/src/$1',
+    '^(\\.{1,2}/.*)\\.js$': '$1'
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,116 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { build, createDevServer, defineConfig } from '@/api/index.js';
+import { ValidationError } from '@/error/validation-error.js';
+
+let siteDir: string;
+
+/**
+ * Write a file of the site.
+ * @param file the path of the file, relative to the site dir
+ * @param content the content of the file
+ */
+const writeFile = (file: string, content: string) => {
+    const absPath = path.join(siteDir, file);
+    fs.mkdirSync(path.dirname(absPath), { recursive: true });
+    fs.writeFileSync(absPath, content);
+};
+
+/**
+ * Read a file of the out dir.
+ * @param file the path of the file, relative to the out dir
+ * @returns the content of the file
+ */
+const readOut = (file: string) =>
+    fs.readFileSync(path.join(siteDir, 'dist', file), 'utf8');
+
+beforeEach(() => {
+    siteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'minimalify-'));
+    writeFile('src/index.html', '<html><body><p>home</p></body></html>');
+
+    // the build cache lives in cwd
+    jest.spyOn(process, 'cwd').mockReturnValue(siteDir);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(siteDir, { recursive: true, force: true });
+});
+
+describe('build', () => {
+    it('builds a config object against the given dir', async () => {
+        const config = defineConfig({
+            src_dir: 'src',
+            out_dir: 'dist',
+            plugins: [],
+        });
+        const builder = await build(config, siteDir);
+
+        expect(readOut('index.html')).toContain('<p>home</p>');
+        expect(
+            builder.processor.getNode(path.join(siteDir, 'src/index.html')),
+        ).toEqual(
+            expect.objectContaining({ type: 'page', name: 'index.html' }),
+        );
+        expect(config).toEqual({
+            src_dir: 'src',
+            out_dir: 'dist',
+            plugins: [],
+        });
+    });
+
+    it('builds a config file, as often as asked', async () => {
+        writeFile(
+            'minimalify.config.json',
+            JSON.stringify({ src_dir: 'src', out_dir: 'dist', plugins: [] }),
+        );
+
+        await build('minimalify.config.json', siteDir);
+        fs.rmSync(path.join(siteDir, 'dist'), { recursive: true });
+        await build('minimalify.config.json', siteDir);
+
+        expect(readOut('index.html')).toContain('<p>home</p>');
+    });
+
+    it('rejects an invalid config', async () => {
+        await expect(
+            build({ src_dir: 'src', unknown: true } as never, siteDir),
+        ).rejects.toThrow(ValidationError);
+    });
+});
+
+describe('createDevServer', () => {
+    it('serves the site & rebuilds it on changes', async () => {
+        const port = 30_000 + Math.floor(Math.random() * 10_000);
+        const server = await createDevServer(
+            { src_dir: 'src', out_dir: 'dist', plugins: [], dev: { port } },
+            siteDir,
+        );
+
+        try {
+            const res = await fetch(`http://localhost:${port}/index.html`, {
+                headers: { connection: 'close' },
+            });
+            const html = await res.text();
+            expect(html).toContain('<p>home</p>');
+            expect(html).toContain('HMR: live reload enabled');
+
+            writeFile(
+                'src/index.html',
+                '<html><body><p>edited</p></body></html>',
+            );
+            for (
+                let i = 0;
+                i < 100 && !readOut('index.html').includes('edited');
+                i++
+            )
+                await new Promise((resolve) => setTimeout(resolve, 100));
+            expect(readOut('index.html')).toContain('<p>edited</p>');
+        } finally {
+            await server.close();
+        }
+    });
+});
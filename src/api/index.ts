@@ -0,0 +1,60 @@
+import { loadConfig, resolveConfig } from '@/config/loader.js';
+import {
+    type MinimalifyConfig,
+    type MinimalifyUserConfig,
+} from '@/config/struct.js';
+import { Builder } from '@/commands/builder/build.js';
+import { type DevServer, startDevServer } from '@/commands/dev/index.js';
+import { clonePlain } from '@/utils/other.js';
+
+/**
+ * Type a minimalify config object, for use in `minimalify.config.js`.
+ * @param config the config object
+ * @returns the same config object
+ */
+export const defineConfig = (config: MinimalifyUserConfig) => config;
+
+/**
+ * Resolve the config given to the api: either a config object, left
+ * untouched, or the path of a config file, relative to cwd.
+ * @param config the config object or file path
+ * @param cwd the directory the config is resolved against
+ * @returns the resolved config object
+ */
+const _resolveConfig = async (
+    config: MinimalifyUserConfig | string,
+    cwd: string,
+) =>
+    typeof config === 'string'
+        ? loadConfig(cwd, config)
+        : resolveConfig(cwd, clonePlain(config) as MinimalifyConfig);
+
+/**
+ * Build the project.
+ * @param config the config object or the path of a config file
+ * @param cwd the directory the config is resolved against
+ * @returns the builder, holding the dependency graph of the build
+ * @throws {ValidationError} if the config is invalid
+ */
+export const build = async (
+    config: MinimalifyUserConfig | string = {},
+    cwd = process.cwd(),
+): Promise<Builder> => {
+    const builder = new Builder(await _resolveConfig(config, cwd));
+    await builder.init();
+    await builder.build();
+    return builder;
+};
+
+/**
+ * Build the project, then serve it & rebuild it on changes. The server
+ * runs until it is closed.
+ * @param config the config object or the path of a config file
+ * @param cwd the directory the config is resolved against
+ * @returns the dev server, once it is listening
+ * @throws {ValidationError} if the config is invalid
+ */
+export const createDevServer = async (
+    config: MinimalifyUserConfig | string = {},
+    cwd = process.cwd(),
+): Promise<DevServer> => startDevServer(await _resolveConfig(config, cwd));
@@ -0,0 +1,37 @@
+import {
+    ABORTING_INSTALLTION,
+    ERROR_CONTACT,
+} from '@/utils/constants/message.js';
+import { logger } from '@/utils/logger.js';
+import { renderPackageTitle } from '@/utils/renderer/package-title.js';
+import { COMMAND_GRAPH } from '@/utils/constants/cli/commands.js';
+import { initCommands } from './cli/index.js';
+
+/**
+ * Check if the command prints its output to stdout, e.g. `graph` without
+ * an output file, so nothing else may be printed there.
+ * @param argv the command line arguments
+ * @returns true if the command writes to stdout
+ */
+const writesToStdout = (argv: string[]) =>
+    argv[0] === COMMAND_GRAPH &&
+    !argv.some(
+        (arg) =>
+            arg === '-o' || arg === '--output' || arg.startsWith('--output='),
+    );
+
+const renderer = async () => {
+    // render package title
+    if (!writesToStdout(process.argv.slice(2))) renderPackageTitle();
+
+    // initialize cli with commander
+    initCommands();
+};
+
+renderer().catch((error) => {
+    logger.error(ABORTING_INSTALLTION);
+    if (error instanceof Error) logger.error(error.message);
+    else logger.error(ERROR_CONTACT);
+
+    process.exit(1);
+});
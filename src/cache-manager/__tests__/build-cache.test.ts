@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BuildCache } from '@/cache-manager/build-cache.js';
+import { type MinimalifyConfig } from '@/config/struct.js';
+import {
+    CACHE_BUILD_DIR,
+    CACHE_BUILD_MAX_AGE,
+} from '@/utils/constants/cache.js';
+
+let baseDir: string;
+
+/**
+ * Create a config, the cache is enabled by default.
+ * @param cfg the fields of the config
+ * @returns the config
+ */
+const createConfig = (cfg: Partial<MinimalifyConfig> = {}) =>
+    ({ src_dir: 'src', ...cfg }) as MinimalifyConfig;
+
+beforeEach(() => {
+    baseDir = fs.mkdtempSync(path.join(os.tmpdir(), 'minimalify-'));
+});
+
+afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true });
+});
+
+describe('BuildCache', () => {
+    it('reuses the outputs across runs', async () => {
+        const cfg = createConfig();
+        const first = new BuildCache(cfg, baseDir);
+        const key = await first.key('css', 'p { margin: 0 }');
+        first.set(key, 'p{margin:0}');
+
+        const second = new BuildCache(cfg, baseDir);
+        expect(await second.key('css', 'p { margin: 0 }')).toBe(key);
+        expect(second.get(key)).toBe('p{margin:0}');
+        expect(second.getBuffer(key)).toEqual(Buffer.from('p{margin:0}'));
+    });
+
+    it('keys the outputs by their namespace, input & config', async () => {
+        const cache = new BuildCache(createConfig(), baseDir);
+        const key = await cache.key('css', 'a');
+
+        expect(key).toMatch(/^css-/);
+        expect(await cache.key('js', 'a')).toMatch(/^js-/);
+        expect(await cache.key('css', 'b')).not.toBe(key);
+        expect(
+            await new BuildCache(
+                createConfig({ src_dir: 'site' }),
+                baseDir,
+            ).key('css', 'a'),
+        ).not.toBe(key);
+    });
+
+    it('stores nothing when it is disabled', async () => {
+        const cache = new BuildCache(createConfig({ cache: false }), baseDir);
+        const key = await cache.key('css', 'a');
+        cache.set(key, 'a');
+
+        expect(cache.get(key)).toBeUndefined();
+        expect(fs.existsSync(path.join(baseDir, CACHE_BUILD_DIR))).toBe(false);
+    });
+
+    it('evicts the entries not used for too long', async () => {
+        const cache = new BuildCache(createConfig(), baseDir);
+        const [stale, fresh] = await Promise.all([
+            cache.key('css', 'stale'),
+            cache.key('css', 'fresh'),
+        ]);
+        cache.set(stale, 'stale');
+        cache.set(fresh, 'fresh');
+
+        const old = new Date(Date.now() - CACHE_BUILD_MAX_AGE - 60_000);
+        fs.utimesSync(path.join(baseDir, CACHE_BUILD_DIR, stale), old, old);
+        cache.prune();
+
+        expect(cache.get(stale)).toBeUndefined();
+        expect(cache.get(fresh)).toBe('fresh');
+    });
+});
@@ -0,0 +1,175 @@
+import path from 'path';
+import fs from 'fs';
+import { threadId } from 'worker_threads';
+import { ensureDir } from '@/utils/dir.js';
+import { logError, logger } from '@/utils/logger.js';
+import { fingerprint } from '@/utils/hasher.js';
+import {
+    CACHE_BUILD_DIR,
+    CACHE_BUILD_MAX_AGE,
+    CACHE_BUILD_MAX_SIZE,
+} from '@/utils/constants/cache.js';
+import { PACKAGE_VERSION } from '@/utils/constants/package-details.js';
+import { type MinimalifyConfig } from '@/config/struct.js';
+import { terminalPretty } from '@/lib/terminal-pretty.js';
+
+/**
+ * Content-addressed cache that stores build outputs (minified pages &
+ * bundles, optimized images) in a local directory, keyed by the
+ * fingerprint of their inputs, so they are reused across runs.
+ */
+export class BuildCache {
+    private cacheDir: string;
+    private cfg: MinimalifyConfig;
+    private enabled: boolean;
+    private salt?: Promise<string>;
+
+    /**
+     * Create a new build cache.
+     *
+     * @param baseDir The base directory to store the cache in.
+     */
+    constructor(cfg: MinimalifyConfig, baseDir: string) {
+        this.cfg = cfg;
+
+        if (this.cfg.cache === undefined || this.cfg.cache === true) {
+            this.enabled = true;
+            this.cacheDir = path.join(baseDir, CACHE_BUILD_DIR);
+            ensureDir(this.cacheDir);
+            logger.debug(
+                `using build cache directory → ${terminalPretty.underline(path.relative(process.cwd(), this.cacheDir))}`,
+            );
+        } else {
+            this.enabled = false;
+            this.cacheDir = '';
+            logger.debug(`cache is disabled, not using build cache directory`);
+        }
+    }
+
+    /**
+     * Compute the cache key of an input. The key is salted with the
+     * config & the minimalify version, so changing either of them
+     * invalidates the cached outputs.
+     *
+     * @param namespace the kind of output, e.g. `css` or `html`
+     * @param input     the input the output is computed from
+     * @returns         the cache key
+     */
+    async key(namespace: string, input: string): Promise<string> {
+        if (!this.salt)
+            // the source of inline plugin hooks is part of the config
+            this.salt = fingerprint(
+                `${PACKAGE_VERSION}\n${JSON.stringify(
+                    this.cfg,
+                    (_key, value) =>
+                        typeof value === 'function' ? value.toString() : value,
+                )}`,
+            );
+
+        return `${namespace}-${await fingerprint(`${await this.salt}\n${input}`)}`;
+    }
+
+    /**
+     * Get a cached text output.
+     *
+     * @param key  the cache key
+     * @returns    the cached text, undefined on a miss
+     */
+    get(key: string): string | undefined {
+        return this.getBuffer(key)?.toString('utf8');
+    }
+
+    /**
+     * Get a cached binary output, e.g. an optimized image.
+     *
+     * @param key  the cache key
+     * @returns    the cached buffer, undefined on a miss
+     */
+    getBuffer(key: string): Buffer | undefined {
+        if (!this.enabled) return undefined;
+
+        const dst = path.join(this.cacheDir, key);
+        if (!fs.existsSync(dst)) return undefined;
+
+        logger.debug(`build cache hit → ${key}`);
+        const data = fs.readFileSync(dst);
+
+        // the modification time of an entry is its last use, for `prune`
+        try {
+            const now = new Date();
+            fs.utimesSync(dst, now, now);
+        } catch {
+            // do nothing, the entry is just evicted sooner
+        }
+        return data;
+    }
+
+    /**
+     * Store an output in the cache.
+     *
+     * @param key   the cache key
+     * @param data  the output to store
+     */
+    set(key: string, data: string | Buffer) {
+        if (!this.enabled) return;
+
+        try {
+            // write to a temp file first, so a killed build or a
+            // concurrent worker never leaves a truncated entry behind
+            const dst = path.join(this.cacheDir, key);
+            const tmp = `${dst}.${process.pid}-${threadId}.tmp`;
+            fs.writeFileSync(tmp, data);
+            fs.renameSync(tmp, dst);
+        } catch (e) {
+            // do nothing, the output is just not cached
+            logError(e);
+            logger.warn(
+                `failed to write build cache entry → ${terminalPretty.underline(key)}`,
+            );
+        }
+    }
+
+    /**
+     * Evict the entries not used for `CACHE_BUILD_MAX_AGE`, then the
+     * least recently used entries until the cache fits in
+     * `CACHE_BUILD_MAX_SIZE`.
+     */
+    prune() {
+        if (!this.enabled) return;
+
+        try {
+            const now = Date.now();
+            const entries = fs
+                .readdirSync(this.cacheDir)
+                .map((name) => {
+                    const dst = path.join(this.cacheDir, name);
+                    const { size, mtimeMs } = fs.statSync(dst);
+                    return { dst, size, used: mtimeMs };
+                })
+                .sort((a, b) => b.used - a.used);
+
+            let size = 0;
+            let evicted = 0;
+            for (const entry of entries) {
+                if (
+                    now - entry.used <= CACHE_BUILD_MAX_AGE &&
+                    size + entry.size <= CACHE_BUILD_MAX_SIZE
+                ) {
+                    size += entry.size;
+                    continue;
+                }
+
+                fs.rmSync(entry.dst, { force: true });
+                evicted++;
+            }
+
+            logger.debug(
+                `build cache pruned → ${terminalPretty.underline(evicted.toString())} entries evicted`,
+            );
+        } catch (e) {
+            // do nothing, the cache is pruned by the next build
+            logError(e);
+            logger.warn(`failed to prune the build cache`);
+        }
+    }
+}
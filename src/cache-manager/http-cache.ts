@@ -64,13 +64,44 @@ export class HTTPCache {
      * @returns    the response text
      */
     async fetch(url: string): Promise<string> {
+        return (await this._fetch(url, 'text')) as string;
+    }
+
+    /**
+     * Fetches the given URL as binary, e.g. fonts & images. Cached the
+     * same way as {@link HTTPCache.fetch}.
+     *
+     * @param url  the resource URL
+     * @returns    the response body
+     */
+    async fetchBuffer(url: string): Promise<Buffer> {
+        return (await this._fetch(url, 'arraybuffer')) as Buffer;
+    }
+
+    /**
+     * Fetches the given URL through the cache.
+     *
+     * @param url  the resource URL
+     * @param responseType  the type of the response body
+     * @returns    the response text or buffer
+     */
+    private async _fetch(
+        url: string,
+        responseType: 'text' | 'arraybuffer',
+    ): Promise<string | Buffer> {
+        const toBody = (data: string | ArrayBuffer) =>
+            typeof data === 'string' ? data : Buffer.from(data);
+        const encoding = responseType === 'text' ? 'utf8' : undefined;
+
         if (!this.enabled) {
-            return (
-                await this._callUri(url, {
-                    responseType: 'text',
-                    validateStatus: (s) => s < 500,
-                })
-            ).data as string;
+            return toBody(
+                (
+                    await this._callUri(url, {
+                        responseType,
+                        validateStatus: (s) => s < 500,
+                    })
+                ).data,
+            );
         }
         const key = encodeURIComponent(url);
         const bodyPath = path.join(this.cacheDir, key + '.body');
@@ -102,16 +133,17 @@ export class HTTPCache {
         const res = await this._callUri(url, {
             headers,
             validateStatus: (s) => s < 500,
-            responseType: 'text',
+            responseType,
         });
 
         if (res.status === 304 && fs.existsSync(bodyPath)) {
             // not modified → return cached body
-            return fs.readFileSync(bodyPath, 'utf8');
+            return fs.readFileSync(bodyPath, encoding);
         }
 
         // write new body
-        fs.writeFileSync(bodyPath, res.data as string, 'utf8');
+        const body = toBody(res.data);
+        fs.writeFileSync(bodyPath, body, encoding);
 
         // write new metadata
         const newMeta: CacheMeta = {};
@@ -125,7 +157,7 @@ export class HTTPCache {
         }
 
         fs.writeFileSync(metaPath, JSON.stringify(newMeta), 'utf8');
-        return res.data;
+        return body;
     }
 
     /**
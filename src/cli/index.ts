@@ -10,6 +10,8 @@ import {
     COMMAND_BUILD_DESCRIPTION,
     COMMAND_DEV,
     COMMAND_DEV_DESCRIPTION,
+    COMMAND_GRAPH,
+    COMMAND_GRAPH_DESCRIPTION,
     COMMAND_INIT,
     COMMAND_INIT_DESCRIPTION,
 } from '@/utils/constants/cli/commands.js';
@@ -24,6 +26,7 @@ import { init } from '@/commands/init/index.js';
 import { Builder } from '@/commands/builder/build.js';
 import { parseCfg } from '@/utils/config.js';
 import { dev } from '@/commands/dev/index.js';
+import { graph, type GraphOptions } from '@/commands/graph/index.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
 
 const shutdown = () => {
@@ -77,6 +80,7 @@ export const initCommands = () => {
     _bakeInitCommand(program);
     _bakeBuildCommand(program);
     _bakeDevCommand(program);
+    _bakeGraphCommand(program);
 
     program
         // Parse user cmd option
@@ -221,7 +225,6 @@ export const _bakeDevCommand = (program: Command) => {
                 const configFilePath = options.config;
 
                 try {
-                    process.env.MINIMALIFY_DEV = 'true';
                     await dev(configFilePath);
                 } catch (error) {
                     logError(error);
@@ -236,6 +239,83 @@ export const _bakeDevCommand = (program: Command) => {
         );
 };
 
+/**
+ * Bake the graph command.
+ * @param {Command} program the program instance
+ */
+export const _bakeGraphCommand = (program: Command) => {
+    // prepare graph command
+    const graphCommand = program.command(COMMAND_GRAPH);
+
+    graphCommand
+        // set graph command description
+        .description(COMMAND_GRAPH_DESCRIPTION)
+        // set graph command options
+        .option(
+            formatOptionInput({
+                ...availableFlags.config.name,
+                extra: '<file>',
+            }),
+            availableFlags.config.description,
+            (availableFlags.config as UserInputMetadataInput).input,
+        )
+        .option(
+            formatOptionInput({
+                ...availableFlags.format.name,
+                extra: '<dot|mermaid|json>',
+            }),
+            availableFlags.format.description,
+            (availableFlags.format as UserInputMetadataInput).input,
+        )
+        .option(
+            formatOptionInput({
+                ...availableFlags.from.name,
+                extra: '<node>',
+            }),
+            availableFlags.from.description,
+            (availableFlags.from as UserInputMetadataInput).input,
+        )
+        .option(
+            formatOptionInput({
+                ...availableFlags['affected-by'].name,
+                extra: '<node>',
+            }),
+            availableFlags['affected-by'].description,
+            (availableFlags['affected-by'] as UserInputMetadataInput).input,
+        )
+        .option(
+            formatOptionInput({
+                ...availableFlags.output.name,
+                extra: '<file>',
+            }),
+            availableFlags.output.description,
+            (availableFlags.output as UserInputMetadataInput).input,
+        )
+
+        // set graph command action
+        .action(async (options: GraphOptions & { config: string }) => {
+            // inform user
+            beforeCommand(program.opts());
+
+            // the graph goes to stdout, keep it free of logs
+            if (!options.output && !program.opts().verbose)
+                logger.level = 'error';
+
+            try {
+                await graph(options.config, options);
+                if (options.output) afterCommand();
+            } catch (error) {
+                logError(error);
+                logger.spinner.stop();
+                if (!program.opts().verbose)
+                    logger.error(
+                        'error occurred while exporting the graph, please run --verbose for more details',
+                    );
+                process.exit(1);
+            }
+        });
+};
+
 const beforeCommand = ({
     json,
     verbose,
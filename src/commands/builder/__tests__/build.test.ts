@@ -0,0 +1,800 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { build } from '@/api/index.js';
+import { HTTPCache } from '@/cache-manager/http-cache.js';
+import { DataError } from '@/error/data-error.js';
+import { TemplateError } from '@/error/template-error.js';
+import { type MinimalifyUserConfig } from '@/config/struct.js';
+import { PagePool } from '@/manager/worker/page-pool.js';
+import { logger } from '@/utils/logger.js';
+
+let siteDir: string;
+
+/**
+ * Build a site written to a temp dir, its sources in `src`.
+ * @param files the sources, relative path → content
+ * @param config the config of the build
+ * @returns the builder
+ */
+const buildSite = async (
+    files: Record<string, string>,
+    config: MinimalifyUserConfig = {},
+) => {
+    for (const [file, content] of Object.entries(files)) {
+        const absPath = path.join(siteDir, 'src', file);
+        fs.mkdirSync(path.dirname(absPath), { recursive: true });
+        fs.writeFileSync(absPath, content);
+    }
+
+    return build(
+        { src_dir: 'src', out_dir: 'dist', plugins: [], ...config },
+        siteDir,
+    );
+};
+
+/**
+ * Read a file of the out dir.
+ * @param file the path of the file, relative to the out dir
+ * @returns the content of the file
+ */
+const readOut = (file: string) =>
+    fs.readFileSync(path.join(siteDir, 'dist', file), 'utf8');
+
+beforeEach(() => {
+    siteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'minimalify-'));
+
+    // the build cache lives in cwd
+    jest.spyOn(process, 'cwd').mockReturnValue(siteDir);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(siteDir, { recursive: true, force: true });
+});
+
+describe('source maps', () => {
+    const site = {
+        'index.html': `<html><head><link rel="stylesheet" href="css/base.css"></head>
+<body><p>hi</p><script src="js/lib.js"></script><script src="js/app.js"></script></body></html>`,
+        'css/base.css': '@import "partials/reset.css";\nbody { color: red; }\n',
+        'css/partials/reset.css': 'p { margin: 0; }\n',
+        'js/lib.js': 'window.lib = "lib";\n',
+        'js/app.js': 'window.app = "app";\n',
+    };
+
+    it('maps the bundles back to their sources, imports included', async () => {
+        await buildSite(site, {
+            css: { sourcemap: true },
+            js: { sourcemap: true },
+        });
+
+        expect(readOut('css/bundle.min.css')).toMatch(
+            /\/\*# sourceMappingURL=bundle\.min\.css\.map \*\/$/,
+        );
+        const cssMap = JSON.parse(readOut('css/bundle.min.css.map'));
+        expect(cssMap.sources).toEqual([
+            '../../src/css/partials/reset.css',
+            '../../src/css/base.css',
+        ]);
+        expect(cssMap.sourcesContent[0]).toBe('p { margin: 0; }\n');
+
+        const js = readOut('js/bundle.classic-sync.min.js');
+        expect(js).toMatch(
+            /\/\/# sourceMappingURL=bundle\.classic-sync\.min\.js\.map$/,
+        );
+        const jsMap = JSON.parse(readOut('js/bundle.classic-sync.min.js.map'));
+        const sources = (jsMap.sources as string[]).map((source, i) => [
+            source,
+            jsMap.sourcesContent[i],
+        ]);
+        expect(Object.fromEntries(sources)).toEqual({
+            '../../src/js/lib.js': site['js/lib.js'],
+            '../../src/js/app.js': site['js/app.js'],
+        });
+    });
+
+    it('writes no source maps by default', async () => {
+        await buildSite(site);
+
+        expect(readOut('css/bundle.min.css')).not.toContain('sourceMappingURL');
+        for (const dir of ['css', 'js'])
+            expect(
+                fs
+                    .readdirSync(path.join(siteDir, 'dist', dir))
+                    .filter((file) => file.endsWith('.map')),
+            ).toEqual([]);
+    });
+});
+
+describe('module scripts', () => {
+    const site = {
+        'index.html': `<html><body><p>hi</p>
+<script type="module" src="js/widget.js"></script>
+<script type="module" src="js/main.js"></script></body></html>`,
+        'js/lib/greet.js':
+            'export const greet = (name) => { document.title = "hi " + name; };\n',
+        'js/main.js':
+            'import { greet } from "./lib/greet.js";\nimport "./widget.js";\ngreet("main");\n',
+        'js/widget.js': 'document.body.dataset.widget = "on";\n',
+    };
+
+    it('bundles the entries with their imports, running each module once', async () => {
+        await buildSite(site);
+
+        const js = readOut('js/bundle.module-defer.min.js');
+        expect(js).not.toMatch(/\bimport\b/);
+        expect(js).toContain('document.title="hi main"');
+        expect(js.match(/dataset\.widget="on"/g)).toHaveLength(1);
+        expect(readOut('index.html')).toContain(
+            '<script src=/js/bundle.module-defer.min.js type=module></script>',
+        );
+    });
+
+    it('maps the bundle back to the imported modules', async () => {
+        await buildSite(site, { js: { sourcemap: true } });
+
+        const map = JSON.parse(readOut('js/bundle.module-defer.min.js.map'));
+        expect(map.sources).toEqual(
+            expect.arrayContaining([
+                '../../src/js/widget.js',
+                '../../src/js/lib/greet.js',
+            ]),
+        );
+    });
+});
+
+describe('script groups', () => {
+    it('bundles the scripts per group, in place of their first tag', async () => {
+        await buildSite({
+            'index.html': `<html><head><script src="js/head.js"></script></head><body>
+<div><script async src="js/stats.js"></script></div>
+<script>window.inline = 1;</script>
+<script defer src="js/app.js"></script></body></html>`,
+            'js/head.js': 'window.head = 1;\n',
+            'js/stats.js': 'window.stats = 1;\n',
+            'js/app.js': 'window.app = 1;\n',
+        });
+
+        expect(readOut('js/bundle.classic-sync.min.js')).toBe('window.head=1;');
+        expect(readOut('js/bundle.classic-async.min.js')).toBe(
+            'window.stats=1;',
+        );
+        expect(readOut('js/bundle.min.js')).toBe('window.app=1;');
+
+        const html = readOut('index.html');
+        expect(html).toMatch(
+            /<head><script src=\/js\/bundle\.classic-sync\.min\.js><\/script>/,
+        );
+        expect(html).toContain(
+            '<div><script src=/js/bundle.classic-async.min.js async=""></script></div>',
+        );
+        expect(html.indexOf('window.inline = 1;')).toBeLessThan(
+            html.indexOf('<script src=/js/bundle.min.js defer=""></script>'),
+        );
+        expect(html).not.toContain('js/app.js');
+    });
+});
+
+describe('css imports', () => {
+    it('inlines the imports in cascade order & copies the urls', async () => {
+        await buildSite({
+            'index.html': `<html><head><link rel="stylesheet" href="css/base.css"></head>
+<body><p>a</p><h1>t</h1></body></html>`,
+            'css/base.css':
+                '@import "partials/print.css" print;\n@import url("partials/type.css");\nbody { background: url(../img/bg.png); }\n',
+            'css/partials/print.css': 'p { color: black; }\n',
+            'css/partials/type.css':
+                '@font-face { font-family: x; src: url("../../fonts/x.woff2"); }\nh1 { font-family: x; }\n',
+            'img/bg.png': 'png',
+            'fonts/x.woff2': 'woff2',
+        });
+
+        expect(readOut('css/bundle.min.css')).toBe(
+            '@media print{p{color:#000}}@font-face{font-family:x;src:url(/fonts/x.woff2)}h1{font-family:x}body{background:url(/img/bg.png)}',
+        );
+        expect(readOut('img/bg.png')).toBe('png');
+        expect(readOut('fonts/x.woff2')).toBe('woff2');
+    });
+
+    it('skips a circular import', async () => {
+        const warn = jest.spyOn(logger, 'warn');
+        await buildSite({
+            'index.html': `<html><head><link rel="stylesheet" href="css/a.css"></head>
+<body><p>a</p><h1>t</h1></body></html>`,
+            'css/a.css': '@import "b.css";\np { color: red; }\n',
+            'css/b.css': '@import "a.css";\nh1 { color: blue; }\n',
+        });
+
+        expect(readOut('css/bundle.min.css')).toBe(
+            'h1{color:blue}p{color:red}',
+        );
+        expect(warn).toHaveBeenCalledWith(
+            expect.stringContaining('circular @import of css/a.css'),
+        );
+    });
+});
+
+describe('base path', () => {
+    const site = {
+        'index.html': `<html><head><link rel="stylesheet" href="css/a.css"></head>
+<body><p>a</p><script src="js/a.js"></script></body></html>`,
+        'blog/post.html': `<html><head><link rel="stylesheet" href="../css/a.css"></head>
+<body><p>a</p></body></html>`,
+        'css/a.css': 'p { background: url(../img/bg.png); }\n',
+        'js/a.js': 'window.a = 1;\n',
+        'img/bg.png': 'png',
+    };
+
+    it('links the bundles of nested pages from the base path', async () => {
+        await buildSite(site, { base_path: 'docs' });
+
+        expect(readOut('blog/post.html')).toContain(
+            '<link rel=stylesheet href=/docs/css/bundle.min.css>',
+        );
+        expect(readOut('index.html')).toContain(
+            '<script src=/docs/js/bundle.classic-sync.min.js></script>',
+        );
+        expect(readOut('css/bundle.min.css')).toBe(
+            'p{background:url(/docs/img/bg.png)}',
+        );
+    });
+
+    it('serves the assets from the asset prefix', async () => {
+        await buildSite(site, {
+            base_path: 'docs',
+            asset_prefix: 'https://cdn.example.com/site',
+        });
+
+        expect(readOut('blog/post.html')).toContain(
+            '<link rel=stylesheet href=https://cdn.example.com/site/css/bundle.min.css>',
+        );
+        expect(readOut('css/bundle.min.css')).toBe(
+            'p{background:url(https://cdn.example.com/site/img/bg.png)}',
+        );
+    });
+});
+
+describe('critical css', () => {
+    // the footer is below the fold, after the first 50 elements
+    const site = {
+        'index.html': `<html><head><link rel="stylesheet" href="css/a.css"></head>
+<body><h1>title</h1>${'<p>a</p>'.repeat(60)}<footer>end</footer></body></html>`,
+        'css/a.css': 'h1 { color: red; }\nfooter { color: blue; }\n',
+    };
+
+    it('inlines the css of the fold & loads the bundle async', async () => {
+        await buildSite(site, { css: { critical: true } });
+
+        const html = readOut('index.html');
+        expect(html).toContain('<style>h1{color:red}</style>');
+        expect(html).toContain(
+            `<link rel=preload href=/css/bundle.min.css as=style onload="this.onload=null;this.rel='stylesheet'">`,
+        );
+        expect(html).toContain(
+            '<noscript><link rel=stylesheet href=/css/bundle.min.css></noscript>',
+        );
+        expect(readOut('css/bundle.min.css')).toBe(
+            'h1{color:red}footer{color:blue}',
+        );
+    });
+
+    it('links the bundle without it', async () => {
+        await buildSite(site);
+
+        const html = readOut('index.html');
+        expect(html).not.toContain('<style>');
+        expect(html).toContain(
+            '<link rel=stylesheet href=/css/bundle.min.css>',
+        );
+    });
+});
+
+describe('page workers', () => {
+    const site = {
+        'index.html': `<html><head><link rel="stylesheet" href="css/a.css"></head>
+<body><include-header title="home"></include-header><script src="js/a.js"></script></body></html>`,
+        'about.html': `<html><head><link rel="stylesheet" href="css/a.css"></head>
+<body><include-header title="about"></include-header></body></html>`,
+        'blog/post.html': `<html><head><link rel="stylesheet" href="../css/b.css"></head>
+<body><include-header title="post"></include-header><p>post</p></body></html>`,
+        'templates/header.html': '<header><h1>{{title}}</h1></header>',
+        'css/a.css': 'h1 { color: red; }\n',
+        'css/b.css': 'p { color: blue; }\n',
+        'js/a.js': 'window.a = 1;\n',
+    };
+    const pages = ['index.html', 'about.html', 'blog/post.html'];
+    const config = { templates: { dir: 'templates' } };
+
+    // the workers load the sources with tsx
+    jest.setTimeout(60_000);
+
+    it('builds the pages like the main thread does', async () => {
+        await buildSite(site, { ...config, build: { concurrency: 1 } });
+        const expected = pages.map(readOut);
+
+        fs.rmSync(path.join(siteDir, 'dist'), { recursive: true });
+        const analyze = jest.spyOn(PagePool.prototype, 'analyze');
+        await buildSite(site, { ...config, build: { concurrency: 2 } });
+
+        expect(analyze).toHaveBeenCalledTimes(pages.length);
+        expect(pages.map(readOut)).toEqual(expected);
+        expect(expected[0]).toContain('<header><h1>home</h1></header>');
+    });
+
+    it('throws the errors of the pages with their type', async () => {
+        await expect(
+            buildSite(
+                {
+                    ...site,
+                    'about.html': '<html layout="missing"><body></body></html>',
+                },
+                { ...config, build: { concurrency: 2 } },
+            ),
+        ).rejects.toThrow(TemplateError);
+    });
+});
+
+describe('plugin hooks', () => {
+    const site = {
+        'index.html': `<html><head><link rel="stylesheet" href="css/a.css"></head>
+<body><include-header title="home"></include-header><script src="js/a.js"></script></body></html>`,
+        'templates/header.html': '<header><h1>{{title}}</h1></header>',
+        'css/a.css': 'h1 { color: red; }\n',
+        'js/a.js': 'window.a = 1;\n',
+    };
+    const config = { templates: { dir: 'templates' } };
+
+    it('rewrites the templates & reports the written files', async () => {
+        const pages: string[] = [];
+        const assets: string[] = [];
+        await buildSite(site, {
+            ...config,
+            plugins: [
+                {
+                    name: 'spy',
+                    onTemplate: (_cfg, name, html) =>
+                        name === 'header'
+                            ? html.replace('<h1>', '<h1 class="title">')
+                            : html,
+                    onPageWritten: (_cfg, relPath, html) => {
+                        pages.push(`${relPath} ${html.length}`);
+                    },
+                    onAssetWritten: (_cfg, type, outPath) => {
+                        assets.push(
+                            `${type} ${path.relative(path.join(siteDir, 'dist'), outPath)}`,
+                        );
+                    },
+                },
+            ],
+        });
+
+        const html = readOut('index.html');
+        expect(html).toContain('<h1 class=title>home</h1>');
+        expect(pages).toEqual([`index.html ${html.length}`]);
+        expect(assets.sort()).toEqual([
+            `css ${path.join('css', 'bundle.min.css')}`,
+            `js ${path.join('js', 'bundle.classic-sync.min.js')}`,
+            // the bundle of the default group is always written
+            `js ${path.join('js', 'bundle.min.js')}`,
+        ]);
+    });
+
+    it('reports the error of a failed build', async () => {
+        const onBuildError = jest.fn<(cfg: unknown, error: Error) => void>();
+        const onPostBuild = jest.fn<() => void>();
+
+        await expect(
+            buildSite(
+                { ...site, 'index.html': '<html layout="missing"></html>' },
+                {
+                    ...config,
+                    plugins: [{ name: 'spy', onBuildError, onPostBuild }],
+                },
+            ),
+        ).rejects.toThrow(TemplateError);
+        expect(onBuildError).toHaveBeenCalledTimes(1);
+        expect(onBuildError).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.any(TemplateError),
+        );
+        expect(onPostBuild).not.toHaveBeenCalled();
+    });
+});
+
+describe('template slots', () => {
+    const config = { templates: { dir: 'templates' } };
+    const card =
+        '<div class="card"><header>{{slot:header}}</header><main>{{children}}</main>' +
+        '<footer>{{#slot:footer}}<em>no footer</em>{{/slot}}</footer></div>';
+
+    it('fills the named slots of a page include', async () => {
+        await buildSite(
+            {
+                'index.html': `<html><body><include-card>
+<h2 slot="header">Title</h2><p>body</p><small slot="footer">by me</small>
+</include-card></body></html>`,
+                'templates/card.html': card,
+            },
+            config,
+        );
+
+        const html = readOut('index.html');
+        expect(html).toContain('<header><h2>Title</h2></header>');
+        expect(html).toMatch(/<main>\s*<p>body<\/p>\s*<\/main>/);
+        expect(html).toContain('<footer><small>by me</small></footer>');
+    });
+
+    it('fills the slots of a nested include or their fallback', async () => {
+        await buildSite(
+            {
+                'index.html':
+                    '<html><body><include-panel></include-panel></body></html>',
+                'templates/card.html': card,
+                'templates/panel.html':
+                    '<section><include-card><b slot="header">Panel</b>content</include-card></section>',
+            },
+            config,
+        );
+
+        const html = readOut('index.html');
+        expect(html).toContain('<header><b>Panel</b></header>');
+        expect(html).toContain('<main>content</main>');
+        expect(html).toContain('<footer><em>no footer</em></footer>');
+    });
+});
+
+describe('template props', () => {
+    const config = { templates: { dir: 'templates' } };
+    const button =
+        '<!-- props: {"label": {"required": true}, "size": {"type": "number", "default": 1}} -->' +
+        '<button data-size="{{size}}">{{label}}</button>';
+
+    it('renders the includes with their props', async () => {
+        await buildSite(
+            {
+                'index.html':
+                    '<html><body><include-button label="go"></include-button></body></html>',
+                'templates/button.html': button,
+            },
+            config,
+        );
+
+        expect(readOut('index.html')).toContain(
+            '<button data-size=1>go</button>',
+        );
+    });
+
+    it('fails the build on a missing prop, at its include', async () => {
+        jest.spyOn(logger, 'errorWithFrame').mockImplementation(() => {});
+
+        await expect(
+            buildSite(
+                {
+                    'index.html':
+                        '<html><body>\n<include-button></include-button></body></html>',
+                    'templates/button.html': button,
+                },
+                config,
+            ),
+        ).rejects.toThrow(
+            /index\.html:2:1 missing required prop label of .*button\.html/,
+        );
+    });
+});
+
+describe('template namespaces', () => {
+    const config = { templates: { dir: 'templates' } };
+
+    it('includes the nested templates by their namespaced name', async () => {
+        await buildSite(
+            {
+                'index.html':
+                    '<html><body><include-ui-button label="go"></include-ui-button><include-ui-forms-input></include-ui-forms-input></body></html>',
+                'templates/ui/button.html': '<button>{{label}}</button>',
+                'templates/ui/forms/input.html': '<input name="q">',
+            },
+            config,
+        );
+
+        const html = readOut('index.html');
+        expect(html).toContain('<button>go</button>');
+        expect(html).toContain('<input name=q>');
+    });
+
+    it('reports two templates with the same name', async () => {
+        await expect(
+            buildSite(
+                {
+                    'index.html': '<html><body></body></html>',
+                    'templates/ui/button.html': '<button></button>',
+                    'templates/ui-button.html': '<a></a>',
+                },
+                config,
+            ),
+        ).rejects.toThrow(
+            /template ui-button is defined twice → .*, rename one of them/,
+        );
+    });
+
+    it('reports a local template named like a shared one', async () => {
+        const sharedUri = 'https://cdn.example.com/templates';
+        jest.spyOn(HTTPCache.prototype, 'fetch').mockImplementation(
+            async (url) => {
+                if (url !== `${sharedUri}/listing.json`)
+                    throw new Error(`unexpected fetch of ${url}`);
+                return JSON.stringify([
+                    { name: 'ui', isDirectory: true },
+                    { name: 'ui/button.html', isDirectory: false },
+                ]);
+            },
+        );
+
+        await expect(
+            buildSite(
+                {
+                    'index.html': '<html><body></body></html>',
+                    'templates/ui/button.html': '<button></button>',
+                },
+                { templates: { ...config.templates, shared_uri: [sharedUri] } },
+            ),
+        ).rejects.toThrow(
+            `template ui-button is defined twice → ${path.join('templates', 'ui', 'button.html')} and ${sharedUri}/ui/button.html, rename one of them`,
+        );
+    });
+});
+
+describe('attribute forwarding', () => {
+    const config = { templates: { dir: 'templates' } };
+    const card =
+        '<!-- props: {"title": "string"} --><div class="card" style="padding: 0">{{title}}</div>';
+
+    it('forwards the undeclared attributes onto the root element', async () => {
+        await buildSite(
+            {
+                'index.html':
+                    '<html><body><include-card title="a" class="wide" style="color: red" id="promo" data-track="x"></include-card></body></html>',
+                'templates/card.html': card,
+            },
+            config,
+        );
+
+        expect(readOut('index.html')).toContain(
+            '<div class="card wide" style="padding: 0; color: red" id=promo data-track=x>a</div>',
+        );
+    });
+
+    it('forwards the attributes of a nested include', async () => {
+        await buildSite(
+            {
+                'index.html':
+                    '<html><body><include-promo></include-promo></body></html>',
+                'templates/card.html': card,
+                'templates/promo.html':
+                    '<section><include-card title="b" class="promo" id="p"></include-card></section>',
+            },
+            config,
+        );
+
+        expect(readOut('index.html')).toContain(
+            '<section><div class="card promo" style="padding: 0" id=p>b</div></section>',
+        );
+    });
+
+    it('drops the attributes of a template without a single root', async () => {
+        const warn = jest.spyOn(logger, 'warn').mockImplementation(() => {});
+        await buildSite(
+            {
+                'index.html':
+                    '<html><body><include-pair id="x"></include-pair></body></html>',
+                'templates/pair.html': '<p>a</p><p>b</p>',
+            },
+            config,
+        );
+
+        expect(readOut('index.html')).toContain('<p>a</p><p>b</p>');
+        expect(readOut('index.html')).not.toContain('id=x');
+        expect(warn).toHaveBeenCalledWith(
+            'template pair has no single root element, dropping id of index.html',
+        );
+    });
+});
+
+describe('layouts', () => {
+    const config = { templates: { dir: 'templates' } };
+    const site = {
+        'index.html':
+            '<html layout="blog"><head><title>Home</title><meta name="description" content="home"></head><body class="home"><p>hello</p></body></html>',
+        'about.html': `<html><head><meta name="minimalify:layout" content="blog"><title>About</title></head>
+<body><h2 slot="aside">more</h2><p>about</p></body></html>`,
+        'plain.html': '<html><body><p>plain</p></body></html>',
+        'templates/layouts/blog.html': `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><title>Blog</title><meta name="description" content="blog"></head>
+<body class="blog"><h1>{{title}}</h1><main>{{children}}</main><aside>{{#slot:aside}}none{{/slot}}</aside></body></html>`,
+    };
+
+    it('wraps the pages in their layout', async () => {
+        await buildSite(site, config);
+
+        const home = readOut('index.html');
+        expect(home).toContain('<html lang=en>');
+        expect(home).toContain('<title>Home</title>');
+        expect(home).toContain('<meta name=description content=home>');
+        expect(home).not.toContain('content=blog');
+        expect(home).toContain(
+            '<body class="blog home"><h1>Home</h1><main><p>hello</p></main><aside>none</aside>',
+        );
+
+        const about = readOut('about.html');
+        expect(about).toContain('<h1>About</h1>');
+        expect(about).toMatch(/<main>\s*<p>about<\/p><\/main>/);
+        expect(about).toContain('<aside><h2>more</h2></aside>');
+        expect(about).not.toContain('minimalify:layout');
+
+        expect(readOut('plain.html')).not.toContain('<h1>');
+    });
+
+    it('rebuilds the pages of a layout when it changes', async () => {
+        const builder = await buildSite(site, config);
+
+        const layout = path.join(siteDir, 'src/templates/layouts/blog.html');
+        fs.writeFileSync(
+            layout,
+            '<html><head></head><body><div id="v2">{{children}}</div></body></html>',
+        );
+        const rebuilt = await builder.incrementalBuild(layout, 'change');
+
+        expect(rebuilt.sort()).toEqual(['/about.html', '/index.html']);
+        expect(readOut('index.html')).toContain(
+            '<div id=v2><p>hello</p></div>',
+        );
+    });
+
+    it('reports a missing layout', async () => {
+        await expect(
+            buildSite(
+                { 'index.html': '<html layout="docs"><body></body></html>' },
+                config,
+            ),
+        ).rejects.toThrow(TemplateError);
+    });
+});
+
+describe('site data', () => {
+    const site = {
+        'index.html':
+            '<html><body><ul>{{#each site.data.team as m}}<li>{{m.name}}</li>{{/each}}</ul></body></html>',
+        'pricing.html':
+            '<html><body>{{#each site.data.shop.tiers as t}}<p>{{t.name}}:{{t.price}}</p>{{/each}}</body></html>',
+        'about.html': '<html><body><p>{{site.data.nav.home}}</p></body></html>',
+        'data/team.json': '[{"name": "ann"}, {"name": "bo"}]',
+        'data/shop/tiers.csv': 'name,price\nfree,0\npro,9\n',
+        'data/nav.yaml': 'home: /index.html\n',
+    };
+
+    it('renders the json, csv & yaml data files of the pages', async () => {
+        await buildSite(site);
+
+        expect(readOut('index.html')).toContain(
+            '<ul><li>ann</li><li>bo</li></ul>',
+        );
+        expect(readOut('pricing.html')).toContain('<p>free:0</p><p>pro:9</p>');
+        expect(readOut('about.html')).toContain('<p>/index.html</p>');
+    });
+
+    it('rebuilds the pages reading a data file when it changes', async () => {
+        const builder = await buildSite(site);
+
+        const team = path.join(siteDir, 'src/data/team.json');
+        fs.writeFileSync(team, '[{"name": "cy"}]');
+
+        expect(await builder.incrementalBuild(team, 'change')).toEqual([
+            '/index.html',
+        ]);
+        expect(readOut('index.html')).toContain('<ul><li>cy</li></ul>');
+    });
+
+    it('reports two data files setting the same key', async () => {
+        await expect(
+            buildSite({ ...site, 'data/team.yaml': '- name: cy\n' }),
+        ).rejects.toThrow(DataError);
+    });
+});
+
+describe('routes', () => {
+    const route = (source: string, body: string) =>
+        `<html><head><meta name="minimalify:route" content="${source}"><title>{{record.title}}</title></head><body>${body}</body></html>`;
+    const site = {
+        'index.html': '<html><body><p>home</p></body></html>',
+        'products/[slug].html': route(
+            'products',
+            '<h1>{{record.name}}</h1><p>{{slug}}</p>',
+        ),
+        'data/products.json':
+            '[{"slug": "lamp", "name": "Lamp"}, {"slug": "desk", "name": "Desk"}]',
+    };
+
+    it('generates a page per record, listed like the other pages', async () => {
+        await buildSite(site, { plugins: ['sitemap'] });
+
+        expect(readOut('products/lamp.html')).toContain(
+            '<h1>Lamp</h1><p>lamp</p>',
+        );
+        expect(readOut('products/desk.html')).toContain('<h1>Desk</h1>');
+        expect(
+            fs.existsSync(path.join(siteDir, 'dist/products/[slug].html')),
+        ).toBe(false);
+
+        const locs = Array.from(
+            readOut('sitemap.xml').matchAll(/<loc>(.*?)<\/loc>/g),
+            (m) => m[1],
+        );
+        expect(locs.sort()).toEqual([
+            '/index.html',
+            '/products/desk.html',
+            '/products/lamp.html',
+        ]);
+    });
+
+    it('adds & drops the pages of the records of an edited data file', async () => {
+        const builder = await buildSite(site);
+
+        const products = path.join(siteDir, 'src/data/products.json');
+        fs.writeFileSync(
+            products,
+            '[{"slug": "lamp", "name": "Lamp 2"}, {"slug": "chair", "name": "Chair"}]',
+        );
+        const rebuilt = await builder.incrementalBuild(products, 'change');
+
+        expect(rebuilt.sort()).toEqual([
+            '/products/chair.html',
+            '/products/lamp.html',
+        ]);
+        expect(readOut('products/lamp.html')).toContain('<h1>Lamp 2</h1>');
+        expect(readOut('products/chair.html')).toContain('<h1>Chair</h1>');
+        expect(
+            fs.existsSync(path.join(siteDir, 'dist/products/desk.html')),
+        ).toBe(false);
+    });
+
+    it('renders the markdown collections without the markdown pages', async () => {
+        let emitted: string[] = [];
+        await buildSite(
+            {
+                'about.md': '# about me\n',
+                'posts/[slug].html': route(
+                    'posts/*.md',
+                    '<article>{{{record.content}}}</article>',
+                ),
+                'posts/first.md': '---\ntitle: First\n---\n# first post\n',
+            },
+            {
+                plugins: [
+                    'markdown',
+                    {
+                        name: 'spy',
+                        onPostBuild() {
+                            emitted = this.getEmittedFiles();
+                        },
+                    },
+                ],
+            },
+        );
+
+        const post = readOut('posts/first.html');
+        expect(post).toContain('<title>First</title>');
+        expect(post).toMatch(/<article><h1>first post<\/h1>\s*<\/article>/);
+        expect(readOut('about.html')).toContain('about me');
+        expect(emitted).toEqual(['about.html']);
+    });
+
+    it('reports two records generating the same page', async () => {
+        await expect(
+            buildSite({
+                ...site,
+                'data/products.json': '[{"slug": "lamp"}, {"slug": "lamp"}]',
+            }),
+        ).rejects.toThrow(DataError);
+    });
+});
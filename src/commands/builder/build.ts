@@ -1,22 +1,41 @@
 import { HTTPCache } from '@/cache-manager/http-cache.js';
 import { type MinimalifyConfig } from '@/config/struct.js';
-import { ProcessorTree } from '@/manager/processor-tree.js';
+import { type ChunkPlan, ProcessorTree } from '@/manager/processor-tree.js';
 import { CSSProcessor } from '@/manager/processor/css-processor.js';
 import { ImagesProcessor } from '@/manager/processor/image-processor.js';
 import { JsProcessor } from '@/manager/processor/js-processor.js';
 import { PageProcessor } from '@/manager/processor/page-processor.js';
 import { TemplateProcessor } from '@/manager/processor/template-processor.js';
+import {
+    DataProcessor,
+    type SiteData,
+} from '@/manager/processor/data-processor.js';
 import {
     type GetPages,
     type AssetProcessor,
+    type AssetProcessorContext,
+    type BundleSource,
+    type ChunksAssetContext,
+    type ScriptChunk,
+    type ScriptGroup,
+    type TemplatesAssetContext,
 } from '@/manager/processor/processor.js';
 import { MinimalifyPluginManager } from '@/plugins/manager.js';
+import { BuildCache } from '@/cache-manager/build-cache.js';
+import { PagePool } from '@/manager/worker/page-pool.js';
 import { CACHE_DIR } from '@/utils/constants/cache.js';
 import { logger } from '@/utils/logger.js';
 import path from 'path';
 import { cleanDir, ensureDir } from '@/utils/dir.js';
 import { type EmitterEventType } from '@/utils/types.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
+import { gatherLocalAsstesUri } from '@/utils/glob.js';
+import {
+    CSS_BUNDLE_NAME,
+    DEFAULT_SCRIPT_GROUP,
+    JS_BUNDLE_NAME,
+} from '@/utils/constants/bundle.js';
+import { formatScriptBundleName } from '@/utils/assets-detector.js';
 
 /**
  * Builder class for building the project.
@@ -32,12 +51,21 @@ export class Builder {
     cfg: MinimalifyConfig;
     processor: ProcessorTree;
     httpCache: HTTPCache;
+    buildCache: BuildCache;
     plugins: MinimalifyPluginManager;
-    cssProcessor: AssetProcessor;
+    cssProcessor: CSSProcessor;
     jsProcessor: AssetProcessor;
-    pageProcessor: AssetProcessor;
+    pageProcessor: PageProcessor;
     templateProcessor: AssetProcessor;
     imageProcessor: AssetProcessor;
+    dataProcessor: AssetProcessor;
+
+    // the css & js chunk plans, only set when splitting is enabled
+    private _chunkPlans: Partial<Record<'css' | 'js', ChunkPlan>> = {};
+
+    // page → the rendered html, the pages are written once their
+    // critical css is inlined
+    private _renderedPages = new Map<string, string>();
 
     /**
      * @param cfg  the configuration object
@@ -48,26 +76,51 @@ export class Builder {
             cfg,
             path.join(process.cwd(), CACHE_DIR),
         );
-        this.plugins = new MinimalifyPluginManager();
-
+        this.buildCache = new BuildCache(
+            cfg,
+            path.join(process.cwd(), CACHE_DIR),
+        );
         // Initialize the processors
         this.processor = new ProcessorTree(cfg);
-        this.cssProcessor = new CSSProcessor(cfg, this.httpCache, this.plugins);
-        this.jsProcessor = new JsProcessor(cfg, this.httpCache, this.plugins);
+        this.plugins = new MinimalifyPluginManager(
+            this.processor,
+            this.buildCache,
+        );
+        this.cssProcessor = new CSSProcessor(
+            cfg,
+            this.httpCache,
+            this.plugins,
+            this.buildCache,
+        );
+        this.jsProcessor = new JsProcessor(
+            cfg,
+            this.httpCache,
+            this.plugins,
+            this.buildCache,
+        );
         this.pageProcessor = new PageProcessor(
             cfg,
             this.httpCache,
             this.plugins,
+            this.buildCache,
         );
         this.templateProcessor = new TemplateProcessor(
             cfg,
             this.httpCache,
             this.plugins,
+            this.buildCache,
         );
         this.imageProcessor = new ImagesProcessor(
             cfg,
             this.httpCache,
             this.plugins,
+            this.buildCache,
+        );
+        this.dataProcessor = new DataProcessor(
+            cfg,
+            this.httpCache,
+            this.plugins,
+            this.buildCache,
         );
 
         // Register the processors
@@ -76,6 +129,7 @@ export class Builder {
         this.processor.registerProcessor('page', this.pageProcessor);
         this.processor.registerProcessor('tmpl', this.templateProcessor);
         this.processor.registerProcessor('img', this.imageProcessor);
+        this.processor.registerProcessor('data', this.dataProcessor);
     }
 
     /**
@@ -90,12 +144,12 @@ export class Builder {
         await this.plugins.callHook('onPreConfig', this.cfg);
 
         await this.processor.init();
-        console.log('done');
         this._initialized = true;
     }
 
     /**
-     * Build the project.
+     * Build the project. The plugins are told about a failed build before
+     * the error is thrown.
      *
      * @returns  the build result
      */
@@ -106,6 +160,43 @@ export class Builder {
             );
         }
 
+        try {
+            await this._build();
+        } catch (e) {
+            logger.debug(
+                `calling ${terminalPretty.underline('build-error')} hook`,
+            );
+            await this.plugins.callHook('onBuildError', this.cfg, e as Error);
+            throw e;
+        }
+    }
+
+    /**
+     * Analyze the project without writing it: expand the routes, then
+     * record the dependencies of the pages & of their module scripts in
+     * the processor tree, e.g. to export the dependency graph.
+     */
+    async analyze() {
+        if (!this._initialized) {
+            throw new Error(
+                'builder is not initialized, please contact the author',
+            );
+        }
+
+        const ctx = this._buildContext();
+        await this.pageProcessor.expandRoutes(ctx);
+
+        const pages = await this.processor.getAllPages();
+        await Promise.all(
+            pages.map((rel) => this.pageProcessor.analyze(ctx, rel)),
+        );
+        await this._buildModules();
+    }
+
+    /**
+     * Build the pages & the assets, then call the post-build hook.
+     */
+    private async _build() {
         // 1. Clean the output directory
         ensureDir(this.cfg.out_dir);
         cleanDir(this.cfg.out_dir);
@@ -117,26 +208,16 @@ export class Builder {
             `cleaning output directory → ${terminalPretty.underline(path.basename(this.cfg.out_dir))}`,
         );
 
-        // 2. Build the HTML pages
+        // 2. Build the HTML pages, with a page per record of the routes
+        await this.pageProcessor.expandRoutes(this._buildContext());
         const pages = await this.processor.getAllPages();
         pages.sort(
             (a, b) =>
                 this.processor.subtreeSize(a) - this.processor.subtreeSize(b),
         );
 
-        await Promise.all(
-            pages.map((rel) =>
-                this.pageProcessor.build(
-                    {
-                        ...this.processor.ctx,
-                        getTemplates: this.templateProcessor.getAssets.bind(
-                            this.templateProcessor,
-                        ),
-                    },
-                    rel,
-                ),
-            ),
-        );
+        await this._buildPages(pages);
+        this.cssProcessor.setRenderedPages(this._renderedPages);
 
         logger.debug(
             `html pages built → ${terminalPretty.underline(pages.length.toString())}`,
@@ -189,8 +270,222 @@ export class Builder {
             `html pages rendered → ${terminalPretty.underline(pages.map((p) => path.basename(p)).join(', '))}`,
         );
 
+        // 4. Inline the critical css, now the css bundles are written,
+        // & write the pages
+        await this._buildCriticalCss();
+
         logger.debug(`calling ${terminalPretty.underline('post-build')} hook`);
         await this.plugins.callHook('onPostBuild', this.cfg);
+
+        this.buildCache.prune();
+    }
+
+    /**
+     * Build the HTML pages. All pages are analyzed first, so the chunk
+     * plans know every page before the first one is rendered.
+     * @param pages the relative paths of the pages to build
+     * @param workers whether the pages may be built in worker threads,
+     * the incremental builds don't start a pool for the few pages they build
+     */
+    private _buildPages = async (
+        pages: string[],
+        workers = true,
+    ): Promise<void> => {
+        const concurrency = workers
+            ? Math.min(this.cfg.build?.concurrency ?? 1, pages.length)
+            : 1;
+        // inline plugins can't be sent to the workers
+        if (
+            concurrency > 1 &&
+            !MinimalifyPluginManager.hasInlinePlugins(this.cfg)
+        )
+            return this._buildPagesInWorkers(pages, concurrency);
+
+        const ctx = this._buildContext();
+
+        await Promise.all(
+            pages.map((rel) => this.pageProcessor.analyze(ctx, rel)),
+        );
+
+        this._planChunks();
+
+        const write = !this._inlinesCriticalCss();
+        await Promise.all(
+            pages.map(async (rel) => {
+                const html = await this.pageProcessor.render(ctx, rel, write);
+                if (!write) this._renderedPages.set(rel, html);
+            }),
+        );
+    };
+
+    /**
+     * Build the HTML pages in worker threads. The dependencies & asset
+     * uris the workers discover are merged back into the processor tree
+     * and the page processor.
+     * @param pages the relative paths of the pages to build
+     * @param concurrency the number of workers
+     */
+    private _buildPagesInWorkers = async (
+        pages: string[],
+        concurrency: number,
+    ): Promise<void> => {
+        const ctx = this._buildContext();
+        const pool = new PagePool(
+            this.cfg,
+            concurrency,
+            await this.templateProcessor.getAssets<Map<string, string>>(
+                'external',
+                () => Promise.resolve([]),
+            ),
+            await this.dataProcessor.getAssets<SiteData>('external', () =>
+                Promise.resolve([]),
+            ),
+            this.pageProcessor.getRoutes(),
+            this.processor.getNodes(),
+        );
+
+        try {
+            await Promise.all(
+                pages.map(async (rel) =>
+                    this.pageProcessor.addAssets(await pool.analyze(ctx, rel)),
+                ),
+            );
+
+            this._planChunks();
+
+            const write = !this._inlinesCriticalCss();
+            await Promise.all(
+                pages.map(async (rel) => {
+                    const html = await pool.render(ctx, rel, write);
+                    if (!write) this._renderedPages.set(rel, html);
+                }),
+            );
+        } finally {
+            await pool.close();
+        }
+    };
+
+    /**
+     * Whether the critical css of the pages is inlined. Skipped in dev,
+     * where the stylesheets are swapped on change.
+     * @returns true if the pages are written after the css bundles
+     */
+    private _inlinesCriticalCss() {
+        return this.cfg.css.critical && this.cfg.mode !== 'dev';
+    }
+
+    /**
+     * Inline the critical css of the rendered pages & write them.
+     */
+    private _buildCriticalCss = async (): Promise<void> => {
+        const ctx = this._buildContext();
+        const pages = Array.from(this._renderedPages.entries());
+        this._renderedPages = new Map();
+        this.cssProcessor.setRenderedPages(this._renderedPages);
+
+        await Promise.all(
+            pages.map(([rel, html]) =>
+                this.pageProcessor.writeWithCriticalCss(
+                    ctx,
+                    rel,
+                    html,
+                    (fold) =>
+                        this.cssProcessor.critical(
+                            ctx.getChunks(rel).css,
+                            fold,
+                        ),
+                ),
+            ),
+        );
+    };
+
+    /**
+     * Create the context passed to the page processor.
+     * @returns the page build context
+     */
+    private _buildContext(): AssetProcessorContext &
+        TemplatesAssetContext &
+        ChunksAssetContext {
+        return {
+            ...this.processor.ctx,
+            getTemplates: this.templateProcessor.getAssets.bind(
+                this.templateProcessor,
+            ),
+            getData: this.dataProcessor.getAssets.bind(this.dataProcessor),
+            getChunks: (relPage) => ({
+                css: this._getChunks('css', CSS_BUNDLE_NAME, relPage),
+                js: this._getScriptChunks(relPage),
+            }),
+        };
+    }
+
+    /**
+     * Get the bundle uris of a type a page has to reference.
+     * @param type the asset type
+     * @param bundleName the bundle name when splitting is disabled
+     * @param relPage the relative path of the page
+     * @returns the bundle uris relative to the out dir
+     */
+    private _getChunks(
+        type: 'css' | 'js',
+        bundleName: string,
+        relPage: string,
+    ): string[] {
+        if (!this.cfg[type].split) return [`${type}/${bundleName}`];
+
+        return (this._chunkPlans[type]?.pages.get(relPage) ?? []).map(
+            (chunk) => `${type}/${chunk}`,
+        );
+    }
+
+    /**
+     * Get the js bundles a page has to reference, a bundle per script
+     * group. Without splitting, every page references the bundles of
+     * all groups.
+     * @param relPage the relative path of the page
+     * @returns the bundle uris relative to the out dir & their group
+     */
+    private _getScriptChunks(relPage: string): ScriptChunk[] {
+        if (!this.cfg.js.split) {
+            return this._getScriptGroups().map((group) => ({
+                uri: `js/${formatScriptBundleName(JS_BUNDLE_NAME, group)}`,
+                group,
+            }));
+        }
+
+        const plan = this._chunkPlans.js;
+        return (plan?.pages.get(relPage) ?? []).map((chunk) => ({
+            uri: `js/${chunk}`,
+            group: plan?.groups.get(chunk) ?? DEFAULT_SCRIPT_GROUP,
+        }));
+    }
+
+    /**
+     * Get the script groups bundled without splitting: the default group,
+     * which the unreferenced local scripts fall in, & the groups of the
+     * scripts of the pages.
+     * @returns the script groups
+     */
+    private _getScriptGroups(): ScriptGroup[] {
+        return Array.from(
+            new Set<ScriptGroup>([
+                DEFAULT_SCRIPT_GROUP,
+                ...this.pageProcessor.getScriptGroups().values(),
+            ]),
+        );
+    }
+
+    /**
+     * Plan the css & js chunks from the page dependencies.
+     */
+    private _planChunks() {
+        if (this.cfg.css.split)
+            this._chunkPlans.css = this.processor.getChunkPlan('css');
+        if (this.cfg.js.split)
+            this._chunkPlans.js = this.processor.getChunkPlan(
+                'js',
+                this.pageProcessor.getScriptGroups(),
+            );
     }
 
     /**
@@ -199,27 +494,32 @@ export class Builder {
      * @returns the CSS assets
      */
     private _buildCssPipeline = async (_getCss: GetPages): Promise<void> => {
+        await this._buildStylesheets(_getCss);
+
+        if (this.cfg.css.split)
+            return this._buildChunkPipeline('css', this.cssProcessor);
+
         // 1) fetch all external CSS
-        const externalCss = await this.cssProcessor.getAssets<string[]>(
+        const externalCss = await this.cssProcessor.getAssets<BundleSource[]>(
             'external',
             _getCss,
         );
 
-        // 2) fetch all internal CSS, using the external result as input
-        const internalCss = await this.cssProcessor.getAssets<string[]>(
+        // 2) fetch all internal CSS
+        const internalCss = await this.cssProcessor.getAssets<BundleSource[]>(
             'local',
-            () => Promise.resolve(externalCss),
+            () => gatherLocalAsstesUri(this.cfg, 'css'),
         );
 
         const finalCss = externalCss.concat(internalCss);
 
         // 3) minify and return
-        const bundle = await this.cssProcessor.minify(
-            finalCss.join('\n'),
+        const { code, map } = await this.cssProcessor.bundle(
+            finalCss,
             this.processor.getAllPages.bind(this.processor),
         );
 
-        return this.cssProcessor.write(bundle);
+        return this.cssProcessor.write(code, undefined, map);
     };
 
     /**
@@ -227,24 +527,138 @@ export class Builder {
      * @param assets the assets to copy
      */
     private _buildJsPipeline = async (_getJs: GetPages): Promise<void> => {
-        const externalJs = await this.jsProcessor.getAssets<string[]>(
-            'external',
-            _getJs,
+        await this._buildModules();
+
+        if (this.cfg.js.split)
+            return this._buildChunkPipeline('js', this.jsProcessor);
+
+        // a bundle per script group, the scripts not loaded by a page
+        // fall in the default group
+        const groups = this.pageProcessor.getScriptGroups();
+        const groupOf = (uri: string) =>
+            groups.get(uri) ?? DEFAULT_SCRIPT_GROUP;
+        const externalUris = await _getJs();
+        const localUris = await gatherLocalAsstesUri(this.cfg, 'js');
+
+        await Promise.all(
+            this._getScriptGroups().map(async (group) => {
+                const externalJs = await this.jsProcessor.getAssets<
+                    BundleSource[]
+                >('external', () =>
+                    Promise.resolve(
+                        externalUris.filter((uri) => groupOf(uri) === group),
+                    ),
+                );
+
+                const internalJs = await this.jsProcessor.getAssets<
+                    BundleSource[]
+                >('local', () =>
+                    Promise.resolve(
+                        localUris.filter(
+                            (f) =>
+                                groupOf(path.relative(this.cfg.src_dir, f)) ===
+                                group,
+                        ),
+                    ),
+                );
+
+                const name = formatScriptBundleName(JS_BUNDLE_NAME, group);
+                const { code, map } = await this.jsProcessor.bundle(
+                    externalJs.concat(internalJs),
+                    this.processor.getAllPages.bind(this.processor),
+                    name,
+                );
+
+                return this.jsProcessor.write(code, name, map);
+            }),
         );
+    };
 
-        const internalJs = await this.jsProcessor.getAssets<string[]>(
-            'local',
-            () => Promise.resolve(externalJs),
+    /**
+     * Resolve the imports & urls of the local and shared stylesheets,
+     * so the css pipelines pick up the resolved stylesheets.
+     * @param _getCss the function to get the shared CSS assets
+     */
+    private _buildStylesheets = async (_getCss: GetPages): Promise<void> => {
+        const local = await gatherLocalAsstesUri(this.cfg, 'css');
+        const uris = local
+            .map((f) => path.relative(this.cfg.src_dir, f))
+            .concat(await _getCss());
+
+        const ctx = this._buildContext();
+        await Promise.all(uris.map((uri) => this.cssProcessor.build(ctx, uri)));
+
+        logger.debug(
+            `stylesheets resolved → ${terminalPretty.underline(uris.length.toString())}`,
         );
+    };
 
-        const finalJs = externalJs.concat(internalJs);
+    /**
+     * Bundle the local module entries found in the pages, so the js
+     * pipelines pick up the bundles instead of the raw files.
+     */
+    private _buildModules = async (): Promise<void> => {
+        const { moduleUris } = await this.pageProcessor.getAssets<{
+            moduleUris: string[];
+        }>('external', this.processor.getAllPages.bind(this.processor));
 
-        const bundle = await this.jsProcessor.minify(
-            finalJs.join('\n'),
-            this.processor.getAllPages.bind(this.processor),
+        const ctx = this._buildContext();
+        await Promise.all(
+            (moduleUris ?? []).map((rel) => this.jsProcessor.build(ctx, rel)),
         );
 
-        return this.jsProcessor.write(bundle);
+        logger.debug(
+            `js modules bundled → ${terminalPretty.underline((moduleUris ?? []).length.toString())}`,
+        );
+    };
+
+    /**
+     * Build every chunk of the chunk plan. Each chunk is minified
+     * against the pages referencing it only.
+     * @param type the asset type
+     * @param processor the asset processor of the type
+     */
+    private _buildChunkPipeline = async (
+        type: 'css' | 'js',
+        processor: AssetProcessor,
+    ): Promise<void> => {
+        const plan =
+            this._chunkPlans[type] ??
+            this.processor.getChunkPlan(
+                type,
+                this.pageProcessor.getScriptGroups(),
+            );
+
+        await Promise.all(
+            Array.from(plan.chunks.entries()).map(async ([chunk, assets]) => {
+                const remote = assets.filter((a) => /^https?:\/\//.test(a));
+                const local = assets
+                    .filter((a) => !/^https?:\/\//.test(a))
+                    .map((a) => path.join(this.cfg.src_dir, a));
+
+                const externalAssets = await processor.getAssets<
+                    BundleSource[]
+                >('external', () => Promise.resolve(remote));
+                const internalAssets = await processor.getAssets<
+                    BundleSource[]
+                >('local', () => Promise.resolve(local));
+
+                const pages = Array.from(plan.pages.entries())
+                    .filter(([, chunks]) => chunks.includes(chunk))
+                    .map(([page]) => page);
+
+                const { code, map } = await processor.bundle(
+                    externalAssets.concat(internalAssets),
+                    () => Promise.resolve(pages),
+                    chunk,
+                );
+
+                logger.debug(
+                    `${type} chunk built → ${terminalPretty.underline(chunk)}`,
+                );
+                return processor.write(code, chunk, map);
+            }),
+        );
     };
 
     /**
@@ -264,6 +678,17 @@ export class Builder {
         absFile: string,
         eventType: EmitterEventType,
     ): Promise<string[]> {
+        // the pages reading a deleted data file are looked up before its
+        // node is removed from the graph
+        const deleted =
+            eventType === 'unlink'
+                ? this.processor.getNode(absFile)
+                : undefined;
+        const orphaned =
+            deleted?.type === 'data'
+                ? this.processor.getStaleNodes(`data:${deleted.name}`)
+                : [];
+
         const node = await this.processor.patchNode(absFile, eventType);
         if (!node) {
             logger.warn(`could not process file ${absFile}`);
@@ -305,25 +730,65 @@ export class Builder {
             return [];
         }
 
-        // page or template
-        const rels =
-            type === 'page'
-                ? [path.relative(this.cfg.src_dir, absFile)]
-                : this.processor.getStaleNodes(name);
+        // page, template or data file, the routes are expanded again as
+        // their records may have changed
+        const known = new Set(await this.processor.getAllPages());
+        await this.pageProcessor.expandRoutes(this._buildContext());
+        const added = (await this.processor.getAllPages()).filter(
+            (page) => !known.has(page),
+        );
 
-        await Promise.all(
-            rels.map((rel) =>
-                this.pageProcessor.build(
-                    {
-                        ...this.processor.ctx,
-                        getTemplates: this.templateProcessor.getAssets.bind(
-                            this.templateProcessor,
-                        ),
-                    },
-                    rel,
-                ),
-            ),
+        const rel = path.relative(this.cfg.src_dir, absFile);
+        const rels = Array.from(
+            new Set([
+                ...(type === 'page'
+                    ? (this.pageProcessor.getRoutePages(rel) ?? [rel])
+                    : this.processor.getStaleNodes(
+                          type === 'data' ? `data:${name}` : name,
+                      )),
+                ...orphaned,
+                ...added,
+            ]),
         );
-        return rels.map((r) => `/${r}`);
+
+        if (!this.cfg.css.split && !this.cfg.js.split) {
+            await this._buildPages(rels, false);
+            return rels.map((r) => `/${r}`);
+        }
+
+        // the chunk plans may change with the page dependencies,
+        // rebuild every page whose chunks changed & the chunks itself
+        const before = this._snapshotChunks();
+        await this._buildPages(rels, false);
+        const after = this._snapshotChunks();
+
+        const changed = Array.from(after.keys()).filter(
+            (page) =>
+                !rels.includes(page) && before.get(page) !== after.get(page),
+        );
+        if (changed.length > 0) await this._buildPages(changed, false);
+
+        await Promise.all([
+            this._buildCssPipeline(() => Promise.resolve([])),
+            this._buildJsPipeline(() => Promise.resolve([])),
+        ]);
+
+        return rels.concat(changed).map((r) => `/${r}`);
+    }
+
+    /**
+     * Snapshot the chunks referenced by each page.
+     * @returns page → serialized chunk uris
+     */
+    private _snapshotChunks() {
+        const snapshot = new Map<string, string>();
+        for (const type of ['css', 'js'] as const) {
+            for (const [page, chunks] of this._chunkPlans[type]?.pages ?? [])
+                snapshot.set(
+                    page,
+                    `${snapshot.get(page) ?? ''}${type}:${chunks.join(',')};`,
+                );
+        }
+        return snapshot;
     }
 }
@@ -1,38 +1,34 @@
 import express, { serveStatic as expressStatic } from '@/lib/express.js';
 import fs from 'fs';
 import path from 'path';
-import { type FSWatcher, watch as chokidarWatch } from 'chokidar';
+import { watch as chokidarWatch } from 'chokidar';
 import { WebSocketServer } from 'ws';
 import { parseCfg } from '@/utils/config.js';
-import { logger } from '@/utils/logger.js';
+import { logError, logger } from '@/utils/logger.js';
+import { toKnownError } from '@/error/index.js';
+import stripAnsi from '@/lib/strip-ansi.js';
 import { CSS_BUNDLE_NAME } from '@/utils/constants/bundle.js';
 import { type Server, type IncomingMessage, type ServerResponse } from 'http';
 import { Builder } from '../builder/build.js';
+import { type MinimalifyConfig } from '@/config/struct.js';
 import { type EmitterEventType } from '@/utils/types.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
 import debounce from '@/lib/debounce.js';
+import { formatBasePath, publicUrl } from '@/utils/url.js';
 
-let server: Server<typeof IncomingMessage, typeof ServerResponse>;
-let wss: WebSocketServer;
-let watcher: FSWatcher;
-
-const shutdown = () => {
-    logger.spinner.update('shutting down server...');
+/**
+ * A running dev server.
+ */
+export interface DevServer {
+    // the builder rebuilding the project on changes
+    builder: Builder;
 
-    watcher?.close();
+    // the http server serving the out dir
+    server: Server<typeof IncomingMessage, typeof ServerResponse>;
 
-    wss?.clients?.forEach((client) => client?.close());
-    wss?.close();
-
-    server?.close(() => {
-        logger.spinner.succeed('server closed gracefully.');
-    });
-};
-
-process.on('SIGINT', shutdown);
-process.on('SIGTERM', shutdown);
-process.on('uncaughtException', shutdown);
-process.on('unhandledRejection', shutdown);
+    // stop watching & close the servers
+    close: () => Promise<void>;
+}
 
 const LIVE_SNIPPET = `
   <script>
@@ -43,9 +39,30 @@ const LIVE_SNIPPET = `
       + '://' + location.host + '/__hmr'
     );
 
+    // the error of the last rebuild, until the next one succeeds
+    const showError = (message) => {
+      let overlay = document.getElementById('__minimalify_error');
+      if (!overlay) {
+        overlay = document.createElement('pre');
+        overlay.id = '__minimalify_error';
+        overlay.style.cssText = 'position:fixed;inset:0;z-index:2147483647;'
+          + 'margin:0;padding:2rem;overflow:auto;white-space:pre-wrap;'
+          + 'background:rgba(24,24,27,.95);color:#fca5a5;font:14px/1.5 monospace';
+        overlay.onclick = () => overlay.remove();
+        document.body.appendChild(overlay);
+      }
+      overlay.textContent = message;
+    };
+
     ws.onmessage = async (e) => {
     console.log('HMR: message received');
       const msg = JSON.parse(e.data);
+      if (msg.type === 'error') {
+        showError(msg.message);
+        return;
+      }
+      document.getElementById('__minimalify_error')?.remove();
+
       if (msg.type === 'css-update') {
         document.querySelectorAll('link[rel=stylesheet]').forEach(link => {
           if (link.href.includes(msg.path)) {
@@ -91,13 +108,36 @@ const LIVE_SNIPPET = `
   </script></body>`;
 
 /**
- * Start the dev server
+ * Start the dev server from the config file, until the process is
+ * interrupted.
  * @param cfgPath path to the config file
  */
 export const dev = async (cfgPath: string) => {
-    const startTime = performance.now();
+    const devServer = await startDevServer(await parseCfg(cfgPath));
+
+    const shutdown = () => {
+        logger.spinner.update('shutting down server...');
+        devServer
+            .close()
+            .then(() => logger.spinner.succeed('server closed gracefully.'));
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+    process.on('uncaughtException', shutdown);
+    process.on('unhandledRejection', shutdown);
+};
 
-    const cfg = await parseCfg(cfgPath);
+/**
+ * Build the project, then serve it & rebuild it on changes.
+ * @param config the resolved minimalify config object
+ * @returns the dev server, once it is listening
+ */
+export const startDevServer = async (
+    config: MinimalifyConfig,
+): Promise<DevServer> => {
+    const startTime = performance.now();
+    const cfg: MinimalifyConfig = { ...config, mode: 'dev' };
     const builder = new Builder(cfg);
 
     // Initialize the builder
@@ -118,6 +158,18 @@ export const dev = async (cfgPath: string) => {
         ),
     );
 
+    // serve the site under its base path, like it is deployed
+    const basePath = formatBasePath(cfg);
+    if (basePath !== '/') {
+        app.use((req, _res, next) => {
+            if (req.path.startsWith(basePath)) {
+                req.path = req.path.slice(basePath.length - 1);
+                req.url = req.path;
+            }
+            next();
+        });
+    }
+
     app.get(/^\/(.+\.html)$/, (req, res, next) => {
         try {
             const resolvedPath = path.resolve(cfg.out_dir, '.' + req.path); // Normalize the path
@@ -138,7 +190,7 @@ export const dev = async (cfgPath: string) => {
 
     app.use(expressStatic(cfg.out_dir));
     // Watch for changes in the source directory
-    server = app.listen(cfg.dev.port, () => {
+    const server = app.listen(cfg.dev.port, () => {
         const endTime = performance.now();
         const timeTaken = ((endTime - startTime) / 1000).toFixed(2);
 
@@ -146,13 +198,13 @@ export const dev = async (cfgPath: string) => {
             `minimalify dev server started on port ${cfg.dev.port} (took ${timeTaken}s)`,
         );
         logger.info(
-            `open your browser at ${terminalPretty.bold.underline(`http://localhost:${cfg.dev.port}/index.html`)}`,
+            `open your browser at ${terminalPretty.bold.underline(`http://localhost:${cfg.dev.port}${publicUrl(cfg, 'index.html')}`)}`,
         );
         logger.info('press Ctrl+C to stop the server');
     });
 
     // Create the websocket server
-    wss = new WebSocketServer({ noServer: true });
+    const wss = new WebSocketServer({ noServer: true });
 
     server.on('upgrade', (req, sock, head) => {
         if (req.url === '/__hmr') {
@@ -165,7 +217,7 @@ export const dev = async (cfgPath: string) => {
     });
 
     // Debounced, coalesced watch events
-    watcher = chokidarWatch(cfg.src_dir, {
+    const watcher = chokidarWatch(cfg.src_dir, {
         ignored: [cfg.out_dir, '**/node_modules/**'],
         ignoreInitial: true,
         usePolling: false,
@@ -177,10 +229,27 @@ export const dev = async (cfgPath: string) => {
         const startTime = performance.now();
 
         const abs = path.resolve(fp);
-        const rebuilt = await builder.incrementalBuild(
-            abs,
-            evt as EmitterEventType,
-        );
+        let rebuilt: string[];
+        try {
+            await builder.plugins.callHook('onFileChange', cfg, abs);
+            rebuilt = await builder.incrementalBuild(
+                abs,
+                evt as EmitterEventType,
+            );
+        } catch (e) {
+            // the server keeps running, the error shows in the browser
+            // until the next rebuild
+            logError(e);
+            const message = stripAnsi(
+                toKnownError(e)?.toString() ??
+                    (e instanceof Error ? e.message : String(e)),
+            );
+            for (const client of wss.clients)
+                client.send(JSON.stringify({ type: 'error', message }));
+
+            logger.spinner.update(`watching for changes...`);
+            return;
+        }
 
         for (const client of wss.clients) {
             if (fp.endsWith('.css')) {
@@ -190,7 +259,10 @@ export const dev = async (cfgPath: string) => {
                 client.send(
                     JSON.stringify({
                         type: 'css-update',
-                        path: path.join('css', CSS_BUNDLE_NAME),
+                        // with split chunks, refresh every stylesheet
+                        path: cfg.css.split
+                            ? 'css/'
+                            : path.join('css', CSS_BUNDLE_NAME),
                     }),
                 );
             } else if (fp.endsWith('.js')) {
@@ -209,7 +281,7 @@ export const dev = async (cfgPath: string) => {
                         client.send(
                             JSON.stringify({
                                 type: 'page-update',
-                                path: url,
+                                path: publicUrl(cfg, url),
                                 content,
                             }),
                         );
@@ -227,4 +299,28 @@ export const dev = async (cfgPath: string) => {
     }, 100);
 
     watcher.on('all', onChange);
+
+    await Promise.all([
+        new Promise<void>((resolve, reject) => {
+            if (server.listening) return resolve();
+            server.once('listening', resolve);
+            server.once('error', reject);
+        }),
+        new Promise<void>((resolve) => watcher.once('ready', resolve)),
+    ]);
+
+    await builder.plugins.callHook('onDevStart', cfg);
+
+    return {
+        builder,
+        server,
+        close: async () => {
+            await watcher.close();
+
+            wss.clients.forEach((client) => client.close());
+            wss.close();
+
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        },
+    };
 };
@@ -0,0 +1,111 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { graph } from '@/commands/graph/index.js';
+import { GraphError } from '@/error/graph-error.js';
+import { ValidationError } from '@/error/validation-error.js';
+
+const env = process.env.NODE_ENV;
+let siteDir: string;
+
+/**
+ * Export the graph of the site to a file.
+ * @param options the graph options
+ * @returns the exported graph
+ */
+const exportGraph = async (options: {
+    format: string;
+    from?: string;
+    affectedBy?: string;
+}) => {
+    const output = path.join(siteDir, `graph.${options.format}`);
+    await graph('minimalify.config.json', { ...options, output });
+    return fs.readFileSync(output, 'utf8');
+};
+
+beforeEach(() => {
+    siteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'minimalify-'));
+    const files = {
+        'minimalify.config.json': JSON.stringify({
+            src_dir: 'src',
+            out_dir: 'dist',
+            templates: { dir: 'templates' },
+            plugins: [],
+        }),
+        'src/index.html': `<html><head><link rel="stylesheet" href="css/a.css"></head>
+<body><include-header></include-header></body></html>`,
+        'src/templates/header.html': '<header>hi</header>',
+        'src/css/a.css': 'header { color: red; }\n',
+    };
+    for (const [file, content] of Object.entries(files)) {
+        const absPath = path.join(siteDir, file);
+        fs.mkdirSync(path.dirname(absPath), { recursive: true });
+        fs.writeFileSync(absPath, content);
+    }
+
+    // the config is read from cwd, not from the testing dir of development
+    process.env.NODE_ENV = 'production';
+    jest.spyOn(process, 'cwd').mockReturnValue(siteDir);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    process.env.NODE_ENV = env;
+    jest.restoreAllMocks();
+    fs.rmSync(siteDir, { recursive: true, force: true });
+});
+
+describe('graph', () => {
+    it('exports the dependencies of the pages without building them', async () => {
+        const exported = JSON.parse(await exportGraph({ format: 'json' }));
+
+        expect(exported.edges).toEqual(
+            expect.arrayContaining([
+                { from: 'page:index.html', to: 'css:css/a.css' },
+                { from: 'page:index.html', to: 'tmpl:header' },
+            ]),
+        );
+        expect(fs.existsSync(path.join(siteDir, 'dist/index.html'))).toBe(
+            false,
+        );
+    });
+
+    it('keeps the pages affected by a node', async () => {
+        const exported = JSON.parse(
+            await exportGraph({ format: 'json', affectedBy: 'tmpl:header' }),
+        );
+
+        expect(
+            exported.nodes.map(({ id }: { id: string }) => id).sort(),
+        ).toEqual(['page:index.html', 'tmpl:header']);
+    });
+
+    it('formats the graph as dot & mermaid', async () => {
+        const dot = await exportGraph({
+            format: 'dot',
+            from: 'page:index.html',
+        });
+        expect(dot).toMatch(/^digraph minimalify \{\n {4}rankdir=LR;\n/);
+        expect(dot).toContain('"page:index.html" [shape=box];');
+        expect(dot).toContain('"page:index.html" -> "tmpl:header";');
+
+        const mermaid = await exportGraph({
+            format: 'mermaid',
+            from: 'page:index.html',
+        });
+        const id = /(n\d+)\["page:index\.html"\]/.exec(mermaid)?.[1];
+        expect(id).toBeDefined();
+        expect(mermaid).toMatch(/^graph LR\n/);
+        expect(mermaid).toMatch(new RegExp(`${id} --> n\\d+`));
+    });
+
+    it('rejects an unknown format or node', async () => {
+        await expect(exportGraph({ format: 'svg' })).rejects.toThrow(
+            ValidationError,
+        );
+        await expect(
+            exportGraph({ format: 'json', from: 'page:missing.html' }),
+        ).rejects.toThrow(GraphError);
+    });
+});
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { parseCfg } from '@/utils/config.js';
+import { logger } from '@/utils/logger.js';
+import { Builder } from '../builder/build.js';
+import { type GraphExport } from '@/manager/processor-tree.js';
+import { type NodeType } from '@/manager/processor/processor.js';
+import { ValidationError } from '@/error/validation-error.js';
+import { terminalPretty } from '@/lib/terminal-pretty.js';
+
+export const graphFormats = ['dot', 'mermaid', 'json'] as const;
+export type GraphFormat = (typeof graphFormats)[number];
+
+export interface GraphOptions {
+    format: string;
+    from?: string;
+    affectedBy?: string;
+    output?: string;
+}
+
+// the DOT shape of each node type
+const DOT_SHAPES: Record<NodeType, string> = {
+    page: 'box',
+    tmpl: 'component',
+    css: 'ellipse',
+    js: 'ellipse',
+    img: 'note',
+    font: 'note',
+    data: 'cylinder',
+};
+
+/**
+ * Format the graph as a Graphviz DOT digraph.
+ * @param graph the exported graph
+ * @returns the DOT source
+ */
+const formatDot = ({ nodes, edges }: GraphExport) => {
+    const quote = (s: string) => JSON.stringify(s);
+    return [
+        'digraph minimalify {',
+        '    rankdir=LR;',
+        ...nodes.map(
+            ({ id, type }) => `    ${quote(id)} [shape=${DOT_SHAPES[type]}];`,
+        ),
+        ...edges.map(({ from, to }) => `    ${quote(from)} -> ${quote(to)};`),
+        '}',
+    ].join('\n');
+};
+
+/**
+ * Format the graph as a Mermaid flowchart.
+ * @param graph the exported graph
+ * @returns the Mermaid source
+ */
+const formatMermaid = ({ nodes, edges }: GraphExport) => {
+    // mermaid ids can't hold paths, the node ids are used as labels
+    const ids = new Map(nodes.map(({ id }, i) => [id, `n${i}`]));
+    const label = (s: string) => s.replace(/"/g, '#quot;');
+    return [
+        'graph LR',
+        ...nodes.map(({ id }) => `    ${ids.get(id)}["${label(id)}"]`),
+        ...edges.map(
+            ({ from, to }) => `    ${ids.get(from)} --> ${ids.get(to)}`,
+        ),
+    ].join('\n');
+};
+
+/**
+ * Analyze the project & export its dependency graph. Nothing is written
+ * to the out dir.
+ * @param configFilePath the path to the config file
+ * @param options the graph options
+ * @throws {ValidationError} if the format is not supported
+ * @throws {GraphError} if a filter node is not in the graph
+ */
+export const graph = async (configFilePath: string, options: GraphOptions) => {
+    const format = options.format as GraphFormat;
+    if (!graphFormats.includes(format))
+        throw new ValidationError(
+            `unsupported graph format ${options.format}, expected one of ${graphFormats.join(', ')}`,
+        );
+
+    const builder = new Builder(await parseCfg(configFilePath));
+    await builder.init();
+    await builder.analyze();
+
+    const exported = builder.processor.getGraph({
+        from: options.from || undefined,
+        affectedBy: options.affectedBy || undefined,
+    });
+    logger.debug(
+        `exporting ${exported.nodes.length} nodes and ${exported.edges.length} edges`,
+    );
+
+    const out =
+        format === 'dot'
+            ? formatDot(exported)
+            : format === 'mermaid'
+              ? formatMermaid(exported)
+              : JSON.stringify(exported, null, 2);
+
+    if (!options.output) {
+        process.stdout.write(`${out}\n`);
+        return;
+    }
+
+    const dst = path.resolve(options.output);
+    fs.writeFileSync(dst, `${out}\n`, 'utf8');
+    logger.success(
+        `dependency graph written to → ${terminalPretty.underline(path.relative(process.cwd(), dst))}`,
+    );
+};
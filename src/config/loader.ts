@@ -1,13 +1,16 @@
 import path from 'path';
 import fs from 'fs';
-import { Ajv } from 'ajv';
+import os from 'os';
+import { Ajv, type ErrorObject } from 'ajv';
 import { type MinimalifyConfig, defaultConfig } from './struct.js';
 import { DirError } from '@/error/dir-error.js';
 import { MinimalifySchema } from './schema.js';
 import { ValidationError } from '@/error/validation-error.js';
-import { dynamicImport } from '@/utils/file.js';
+import { dynamicImport, isLocalPath } from '@/utils/file.js';
+import { clonePlain } from '@/utils/other.js';
 import { logger } from '@/utils/logger.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
+import { resolvePlugin, splitPluginEntry } from '@/plugins/manager.js';
 import {
     CONFIG_FILE_NAME,
     CONFIG_FILE_NAME_JSON,
@@ -45,10 +48,30 @@ export const loadConfig = async (cwd: string, filePath: string) => {
     );
 
     // load the config file with cwd as type MinimalifyConfig
-    let config = await dynamicImport<MinimalifyConfig>(
+    const config = await dynamicImport<MinimalifyConfig>(
         path.join(cwd, filePath),
     );
 
+    // the module is cached, the resolved config is a copy of it
+    return resolveConfig(cwd, clonePlain(config), filePath);
+};
+
+/**
+ * Fill in the defaults of a config object & validate it. The directories
+ * of the config are resolved against cwd.
+ * @param cwd the current working directory
+ * @param config the config object, mutated in place
+ * @param source where the config comes from, used in the error messages
+ * @returns the resolved config object
+ * @throws {DirError} if the src directory is not usable
+ * @throws {ValidationError} if the config or the options of a plugin
+ * are invalid
+ */
+export const resolveConfig = async (
+    cwd: string,
+    config: MinimalifyConfig,
+    source = 'minimalify.config',
+) => {
     // merge the config with the default config
     if ('$schema' in config) delete config.$schema;
 
@@ -58,6 +81,11 @@ export const loadConfig = async (cwd: string, filePath: string) => {
     if (config.out_dir === undefined || config.out_dir === '')
         config.out_dir = 'dist';
 
+    if (config.base_path === undefined || config.base_path === '')
+        config.base_path = '/';
+
+    if (config.asset_prefix === undefined) config.asset_prefix = '';
+
     config.src_dir = path.join(cwd, config.src_dir);
     config.out_dir = path.join(cwd, config.out_dir);
 
@@ -70,6 +98,10 @@ export const loadConfig = async (cwd: string, filePath: string) => {
         config.dev = {
             port: 3000,
         };
+    if (config.build == undefined)
+        config.build = { concurrency: os.cpus().length };
+    if (config.build.concurrency == undefined)
+        config.build.concurrency = os.cpus().length;
 
     if (config.css.ignore == undefined) config.css.ignore = [];
     if (config.js.ignore == undefined) config.js.ignore = [];
@@ -81,6 +113,11 @@ export const loadConfig = async (cwd: string, filePath: string) => {
     if (config.js.minify == undefined) config.js.minify = true;
     if (config.css.minify == undefined) config.css.minify = true;
     if (config.images.optimize == undefined) config.images.optimize = true;
+    if (config.js.split == undefined) config.js.split = false;
+    if (config.css.split == undefined) config.css.split = false;
+    if (config.js.sourcemap == undefined) config.js.sourcemap = false;
+    if (config.css.sourcemap == undefined) config.css.sourcemap = false;
+    if (config.css.critical == undefined) config.css.critical = false;
 
     if (config.templates.shared_uri === undefined)
         config.templates.shared_uri = [];
@@ -98,6 +135,15 @@ export const loadConfig = async (cwd: string, filePath: string) => {
     if (config.custom_domain === undefined) config.custom_domain = '';
     if (config.plugins === undefined) config.plugins = [];
 
+    // local plugins are relative to the config
+    config.plugins = config.plugins.map((entry) => {
+        const [specifier, options] = splitPluginEntry(entry);
+        if (typeof specifier !== 'string' || !isLocalPath(specifier))
+            return entry;
+        const resolved = path.resolve(cwd, specifier);
+        return options === undefined ? resolved : [resolved, options];
+    });
+
     if (
         config.favicon &&
         config.favicon.theme_color &&
@@ -145,14 +191,17 @@ export const loadConfig = async (cwd: string, filePath: string) => {
     // validate with AJV
     const ajv = new Ajv({ allErrors: true });
     const validator = ajv.compile(MinimalifySchema);
-    if (!validator(config)) {
+    const errors = validator(config)
+        ? await validatePluginOptions(ajv, config)
+        : (validator.errors ?? []);
+    if (errors.length > 0) {
         logger.spinner.stop();
         logger.error(
-            `config file ${terminalPretty.underline(path.relative(process.cwd(), filePath))} is invalid. please check the errors below.`,
+            `config file ${terminalPretty.underline(path.relative(process.cwd(), source))} is invalid. please check the errors below.`,
         );
 
         const tableHeader = ['Property', 'Error'];
-        const tableRows = validator.errors?.map((error) => {
+        const tableRows = errors.map((error) => {
             return {
                 Property: error.instancePath,
                 Error: error.message,
@@ -165,7 +214,7 @@ export const loadConfig = async (cwd: string, filePath: string) => {
         );
 
         throw new ValidationError(
-            `config file ${path.relative(process.cwd(), filePath)} is invalid. ${ajv.errorsText(validator.errors)}`,
+            `config file ${path.relative(process.cwd(), source)} is invalid. ${ajv.errorsText(errors)}`,
         );
     }
 
@@ -178,6 +227,34 @@ export const loadConfig = async (cwd: string, filePath: string) => {
     return config;
 };
 
+/**
+ * Validate the options of the plugins against the schemas the plugins
+ * declare. Plugins that fail to load are reported by the plugin manager.
+ * @param ajv the ajv instance
+ * @param config the minimalify config object
+ * @returns the validation errors, with paths into the config
+ */
+const validatePluginOptions = async (ajv: Ajv, config: MinimalifyConfig) => {
+    const errors: ErrorObject[] = [];
+
+    for (const [i, entry] of config.plugins.entries()) {
+        const [specifier, options = {}] = splitPluginEntry(entry);
+        const plugin = await resolvePlugin(specifier).catch(() => undefined);
+        if (!plugin?.optionsSchema) continue;
+
+        const validate = ajv.compile(plugin.optionsSchema);
+        if (validate(options)) continue;
+
+        for (const error of validate.errors ?? [])
+            errors.push({
+                ...error,
+                instancePath: `/plugins/${i}${Array.isArray(entry) ? '/1' : ''}${error.instancePath}`,
+            });
+    }
+
+    return errors;
+};
+
 /**
  * Validate the available directories in the config file.
  * @param cwd the current working directory
@@ -1,4 +1,5 @@
-import { type SupportedPlugins } from '@/utils/constants/supported-plugins.js';
+import os from 'os';
+import { type MinimalifyPluginEntry } from '@/plugins/typings.js';
 import { type MinifyOptions } from 'terser';
 
 /**
@@ -16,6 +17,10 @@ interface JSConfig {
     minify: boolean;
     minify_options: MinifyOptions;
     ignore: string[];
+    // split the bundle into chunks shared by the same pages & per-page chunks
+    split: boolean;
+    // write source maps next to the bundles
+    sourcemap: boolean;
 }
 
 /**
@@ -24,6 +29,12 @@ interface JSConfig {
 interface CSSConfig {
     minify: boolean;
     ignore: string[];
+    // split the bundle into chunks shared by the same pages & per-page chunks
+    split: boolean;
+    // write source maps next to the bundles
+    sourcemap: boolean;
+    // inline the above-the-fold css & load the bundles async
+    critical: boolean;
 }
 
 /**
@@ -121,6 +132,12 @@ export interface MinimalifyConfig {
     // the output directory of the project
     out_dir: string;
 
+    // the path the site is served from, e.g. /docs/
+    base_path?: string;
+
+    // the prefix of the asset urls, e.g. a CDN host
+    asset_prefix?: string;
+
     // the processable assets domains
     shared_domains: string[];
 
@@ -144,6 +161,14 @@ export interface MinimalifyConfig {
         port: number;
     };
 
+    // build options
+    build?: {
+        // the number of worker threads building the pages, the page hooks
+        // of the plugins run in the workers without the processor tree.
+        // Defaults to the number of cpus
+        concurrency: number;
+    };
+
     custom_domain?: string;
 
     seo?: Partial<SeoConfig>;
@@ -152,12 +177,22 @@ export interface MinimalifyConfig {
     favicon?: Partial<FaviconConfig>;
 
     // minimalify plugins
-    plugins: SupportedPlugins[];
+    plugins: MinimalifyPluginEntry[];
 
     // cache options
     cache?: boolean;
+
+    // whether the project is built for the dev server, set by the dev
+    // server & not read from the config file
+    mode?: 'build' | 'dev';
 }
 
+/**
+ * MinimalifyUserConfig is the config object a user writes, the missing
+ * options fall back to their defaults
+ */
+export type MinimalifyUserConfig = Partial<MinimalifyConfig>;
+
 // the available directories in the config
 export type AvailableDirectories = Pick<
     MinimalifyConfig,
@@ -174,6 +209,8 @@ export type AvailableDirectoriesArray = Array<keyof AvailableDirectories>;
 export const defaultConfig: MinimalifyConfig = {
     src_dir: '.',
     out_dir: 'dist',
+    base_path: '/',
+    asset_prefix: '',
     shared_domains: ['https://therahulagarwal.com'],
     html: {
         minify: true,
@@ -182,11 +219,16 @@ export const defaultConfig: MinimalifyConfig = {
     css: {
         minify: true,
         ignore: [],
+        split: false,
+        sourcemap: false,
+        critical: false,
     },
     js: {
         minify: true,
         minify_options: {},
         ignore: [],
+        split: false,
+        sourcemap: false,
     },
     images: {
         optimize: true,
@@ -260,6 +302,9 @@ export const defaultConfig: MinimalifyConfig = {
     dev: {
         port: 3000,
     },
+    build: {
+        concurrency: os.cpus().length,
+    },
     cache: true,
     plugins: [
         'accessibility',
@@ -0,0 +1,16 @@
+/**
+ * Custom error class for data errors. which accept custom message
+ */
+export class DataError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DataError';
+    }
+    /**
+     * Custom toString method to return the error message
+     * @returns {string} the error message
+     */
+    override toString() {
+        return `${this.name}: ${this.message}`;
+    }
+}
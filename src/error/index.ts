@@ -1,4 +1,5 @@
 import { BundleError } from './bundle-error.js';
+import { DataError } from './data-error.js';
 import { DirError } from './dir-error.js';
 import { FileError } from './file-error.js';
 import { GraphError } from './graph-error.js';
@@ -6,16 +7,19 @@ import { HTMLError } from './html-error.js';
 import { ImageError } from './image-error.js';
 import { NotImplementedError } from './not-implemented-error.js';
 import { PluginError } from './plugin-error.js';
+import { TemplateError } from './template-error.js';
 import { ValidationError } from './validation-error.js';
 
 // Define an array of error types
 const errorTypes = [
     BundleError,
+    DataError,
     DirError,
     FileError,
     GraphError,
     HTMLError,
     PluginError,
+    TemplateError,
     NotImplementedError,
     ValidationError,
     ImageError,
@@ -31,11 +35,13 @@ function toKnownError(
     error: unknown,
 ):
     | BundleError
+    | DataError
     | DirError
     | FileError
     | GraphError
     | HTMLError
     | PluginError
+    | TemplateError
     | ValidationError
     | NotImplementedError
     | ImageError
@@ -44,12 +50,14 @@ function toKnownError(
         if (error instanceof ErrorType) {
             return error as
                 | BundleError
+                | DataError
                 | DirError
                 | FileError
                 | GraphError
                 | NotImplementedError
                 | HTMLError
                 | PluginError
+                | TemplateError
                 | ValidationError
                 | ImageError;
         }
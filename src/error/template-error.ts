@@ -0,0 +1,16 @@
+/**
+ * Custom error class for template errors. which accept custom message
+ */
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+    /**
+     * Custom toString method to return the error message
+     * @returns {string} the error message
+     */
+    override toString() {
+        return `${this.name}: ${this.message}`;
+    }
+}
@@ -1,23 +1,13 @@
-import {
-    ABORTING_INSTALLTION,
-    ERROR_CONTACT,
-} from '@/utils/constants/message.js';
-import { logger } from '@/utils/logger.js';
-import { renderPackageTitle } from '@/utils/renderer/package-title.js';
-import { initCommands } from './cli/index.js';
-
-const renderer = async () => {
-    // render package title
-    renderPackageTitle();
-
-    // initialize cli with commander
-    initCommands();
-};
-
-renderer().catch((error) => {
-    logger.error(ABORTING_INSTALLTION);
-    if (error instanceof Error) logger.error(error.message);
-    else logger.error(ERROR_CONTACT);
-
-    process.exit(1);
-});
+export { build, createDevServer, defineConfig } from './api/index.js';
+export { Builder } from './commands/builder/build.js';
+export { type DevServer } from './commands/dev/index.js';
+export {
+    type MinimalifyConfig,
+    type MinimalifyUserConfig,
+} from './config/struct.js';
+export {
+    type MinimalifyPlugin,
+    type PluginContext,
+    type PluginLogger,
+    type PostBundleResult,
+} from './plugins/typings.js';
@@ -18,7 +18,7 @@
 export interface RequestlyRequestConfig {
     headers?: Record<string, string>;
     validateStatus?: (status: number) => boolean;
-    responseType?: 'text' | 'json';
+    responseType?: 'text' | 'json' | 'arraybuffer';
 }
 
 export interface RequestlyResponse<T = any> {
@@ -40,6 +40,8 @@ const get = async <T = any>(
     let data: any;
     if (responseType === 'json') {
         data = await res.json();
+    } else if (responseType === 'arraybuffer') {
+        data = await res.arrayBuffer();
     } else {
         data = await res.text();
     }
@@ -0,0 +1,101 @@
+import { type MinimalifyConfig } from '@/config/struct.js';
+import { type ScriptGroup } from '@/manager/processor/processor.js';
+import { ProcessorTree } from '@/manager/processor-tree.js';
+
+/**
+ * Create a tree of pages & the assets they reference, in document order.
+ * @param pages page → its assets, e.g. `css:base.css`
+ * @returns the processor tree
+ */
+const createTree = (pages: Record<string, string[]>) => {
+    const tree = new ProcessorTree({} as MinimalifyConfig);
+
+    for (const [page, assets] of Object.entries(pages)) {
+        tree.ctx.addNode({ type: 'page', name: page, absPath: `/${page}` });
+        for (const asset of assets) tree.ctx.addDependency(page, asset);
+    }
+    return tree;
+};
+
+describe('getChunkPlan', () => {
+    it('splits the assets by the pages using them', () => {
+        const plan = createTree({
+            'a.html': ['css:base.css', 'css:a.css'],
+            'b.html': ['css:base.css'],
+        }).getChunkPlan('css');
+
+        expect(plan.chunks).toEqual(
+            new Map([
+                ['shared.min.css', ['base.css']],
+                ['pages/a.min.css', ['a.css']],
+            ]),
+        );
+        expect(plan.pages.get('a.html')).toEqual([
+            'shared.min.css',
+            'pages/a.min.css',
+        ]);
+        expect(plan.pages.get('b.html')).toEqual(['shared.min.css']);
+    });
+
+    it('orders the chunks of a page by their first asset', () => {
+        const plan = createTree({
+            'a.html': ['css:base.css', 'css:x.css', 'css:b.css'],
+            'b.html': ['css:base.css', 'css:b.css'],
+            'c.html': ['css:base.css'],
+        }).getChunkPlan('css');
+
+        const shared = Array.from(plan.chunks.keys()).find((chunk) =>
+            /^shared-\w{8}\.min\.css$/.test(chunk),
+        );
+        expect(shared).toBeDefined();
+        expect(plan.chunks.get(shared as string)).toEqual(['b.css']);
+        expect(plan.pages.get('a.html')).toEqual([
+            'shared.min.css',
+            'pages/a.min.css',
+            shared,
+        ]);
+        expect(plan.pages.get('b.html')).toEqual(['shared.min.css', shared]);
+    });
+
+    it('splits a chunk whose assets are not in the same order on every page', () => {
+        const plan = createTree({
+            'a.html': ['css:one.css', 'css:two.css'],
+            'b.html': ['css:two.css', 'css:one.css'],
+        }).getChunkPlan('css');
+
+        expect(plan.chunks).toEqual(
+            new Map([
+                ['shared.min.css', ['one.css']],
+                ['shared-2.min.css', ['two.css']],
+            ]),
+        );
+        expect(plan.pages.get('a.html')).toEqual([
+            'shared.min.css',
+            'shared-2.min.css',
+        ]);
+        expect(plan.pages.get('b.html')).toEqual([
+            'shared-2.min.css',
+            'shared.min.css',
+        ]);
+    });
+
+    it('chunks the scripts per group', () => {
+        const plan = createTree({
+            'a.html': ['js:app.js', 'js:lib.js'],
+            'b.html': ['js:app.js', 'js:lib.js'],
+        }).getChunkPlan(
+            'js',
+            new Map<string, ScriptGroup>([['lib.js', 'module-defer']]),
+        );
+
+        expect(plan.chunks).toEqual(
+            new Map([
+                ['shared.min.js', ['app.js']],
+                ['shared.module-defer.min.js', ['lib.js']],
+            ]),
+        );
+        expect(plan.groups.get('shared.module-defer.min.js')).toBe(
+            'module-defer',
+        );
+    });
+});
@@ -93,6 +93,21 @@ export class DependencyGraph {
         this.dependents.get(resource)?.delete(page);
     }
 
+    /**
+     * Remove a node & every dependency from or to it.
+     *
+     * @param node  the node to remove
+     */
+    removeNode(node: string): void {
+        for (const resource of this.dependencies.get(node) ?? [])
+            this.dependents.get(resource)?.delete(node);
+        for (const page of this.dependents.get(node) ?? [])
+            this.dependencies.get(page)?.delete(node);
+
+        this.dependencies.delete(node);
+        this.dependents.delete(node);
+    }
+
     /**
      * Get dependencies of a given page.
      *
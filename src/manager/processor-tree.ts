@@ -5,14 +5,60 @@ import {
     type NodeType,
     type AssetProcessorContext,
     type AssetNode,
+    type ScriptGroup,
+    supportedNodeTypes,
 } from './processor/processor.js';
+import { type PageProcessor } from './processor/page-processor.js';
 import { logger } from '@/utils/logger.js';
 import path from 'path';
+import crypto from 'crypto';
 import { type EmitterEventType } from '@/utils/types.js';
+import {
+    DEFAULT_SCRIPT_GROUP,
+    PAGE_CHUNK_DIR,
+    SHARED_CHUNK_NAME,
+} from '@/utils/constants/bundle.js';
+import { formatScriptBundleName } from '@/utils/assets-detector.js';
+import { GraphError } from '@/error/graph-error.js';
+import { DATA_DIR_NAME } from '@/utils/constants/file-name.js';
+
+/**
+ * ChunkPlan describes how the css or js assets are split into bundles.
+ */
+export interface ChunkPlan {
+    // chunk name (relative to the asset output dir) → ordered asset uris
+    chunks: Map<string, string[]>;
+
+    // page → ordered chunk names the page has to reference
+    pages: Map<string, string[]>;
+
+    // chunk name → the group of its scripts, js only
+    groups: Map<string, ScriptGroup>;
+}
+
+/**
+ * An exported dependency graph. Node ids are prefixed with their type,
+ * e.g. `page:index.html`, `css:css/base.css` or `tmpl:header`.
+ */
+export interface GraphExport {
+    nodes: { id: string; type: NodeType }[];
+    edges: { from: string; to: string }[];
+}
+
+/**
+ * Filters of an exported dependency graph, both take node ids.
+ */
+export interface GraphFilter {
+    // keep the node & everything it depends on
+    from?: string;
+
+    // keep the node & everything affected by a change to it
+    affectedBy?: string;
+}
 
 /**
  * BuildGraph builds a DAG of dependencies:
- *   page:xxx → css:yyy, js:zzz, tmpl:aaa, img:bbb
+ *   page:xxx → css:yyy, js:zzz, tmpl:aaa, img:bbb, data:ccc
  */
 export class ProcessorTree {
     // stores the dependency graph
@@ -45,10 +91,25 @@ export class ProcessorTree {
             logger.debug(`added node ${name} of type ${type}`);
         },
 
+        removeNode: (name) => {
+            const node = this.assetNameToNode.get(name);
+            if (node) {
+                this.assetNameToNode.delete(name);
+                this.absPathToNode.delete(node.absPath);
+            }
+
+            this.deps.removeNode(name);
+            logger.debug(`removed node ${name}`);
+        },
+
         addDependency: (from, to) => {
             this.deps.addDependency(from, to);
         },
 
+        removeDependency: (from, to) => {
+            this.deps.removeDependency(from, to);
+        },
+
         getDependencies: (node) => {
             return Array.from(this.deps.getDependencies(node) || []);
         },
@@ -110,6 +171,14 @@ export class ProcessorTree {
         return this.absPathToNode.get(filePath);
     }
 
+    /**
+     * Get every node of the tree.
+     * @returns the nodes
+     */
+    getNodes(): AssetNode[] {
+        return Array.from(this.absPathToNode.values());
+    }
+
     /**
      * Get a node or create a new one if it doesn't exist.
      * @param filePath the absolute path of the file
@@ -155,10 +224,25 @@ export class ProcessorTree {
             };
         }
 
+        if (
+            absPath.startsWith(path.join(cfg.src_dir, DATA_DIR_NAME, path.sep))
+        ) {
+            return {
+                ext: 'data' as NodeType,
+                relPath: path.relative(cfg.src_dir, absPath),
+            };
+        }
+
+        // the markdown files are data, read by the routes of collections
         const ext = path.extname(absPath).substring(1);
         const relPath = path.relative(cfg.src_dir, absPath);
         return {
-            ext: ext === 'html' ? 'page' : (ext as NodeType),
+            ext:
+                ext === 'html'
+                    ? 'page'
+                    : ext === 'md'
+                      ? 'data'
+                      : (ext as NodeType),
             relPath,
         };
     }
@@ -177,6 +261,17 @@ export class ProcessorTree {
         return Array.from(pages);
     }
 
+    /**
+     * Get the markdown files the route collections read as data.
+     * @returns the markdown files, relative to the src dir
+     */
+    async getRouteDataFiles() {
+        const processor = this.assetProcessor.get('page') as
+            | PageProcessor
+            | undefined;
+        return (await processor?.getRouteDataFiles()) ?? [];
+    }
+
     /**
      * Get all stale nodes in the graph for a given node.
      * @param nodeName the name of the node
@@ -189,6 +284,237 @@ export class ProcessorTree {
             .filter((node) => this.assetNameToNode.get(node)?.type === filter);
     }
 
+    /**
+     * Split the css or js assets referenced by the pages into chunks.
+     * The assets used by the same pages share a chunk: `shared` for all
+     * pages, `shared-<hash>` for some, a chunk per page for the rest. A
+     * chunk is split where its assets don't follow each other on every
+     * page, so each page loads its assets in document order. Scripts are
+     * chunked per group.
+     * @param type the asset type to split
+     * @param groups js uri → the group of its scripts
+     * @returns the chunk plan
+     */
+    getChunkPlan(
+        type: 'css' | 'js',
+        groups: Map<string, ScriptGroup> = new Map(),
+    ): ChunkPlan {
+        const prefix = `${type}:`;
+        const ext = `.min.${type}`;
+
+        const pages = Array.from(this.absPathToNode.values())
+            .filter((node) => node.type === 'page')
+            .map((node) => node.name)
+            .sort();
+
+        // the scripts of a group are bundled apart from the other groups
+        const groupOf = (asset: string) =>
+            type === 'js' ? (groups.get(asset) ?? DEFAULT_SCRIPT_GROUP) : '';
+
+        // collect the assets of each group of each page & the pages
+        // using each asset
+        const users = new Map<string, string[]>();
+        const pageAssets = new Map<string, string[]>();
+        for (const page of pages) {
+            const assets = Array.from(this.deps.getDependencies(page) || [])
+                .filter((dep) => dep.startsWith(prefix))
+                .map((dep) => dep.substring(prefix.length));
+
+            pageAssets.set(page, assets);
+            for (const asset of assets)
+                users.set(asset, [...(users.get(asset) ?? []), page]);
+        }
+        const sequence = (page: string, group: string) =>
+            (pageAssets.get(page) ?? []).filter((a) => groupOf(a) === group);
+        const keyOf = (asset: string) =>
+            [groupOf(asset), ...(users.get(asset) ?? [])].join('\n');
+
+        // the runs of the assets used by the same pages, the assets of a
+        // run follow each other on every page using them
+        const runs = new Map<string, string[][]>();
+        const runOf = new Map<string, string[]>();
+        for (const [page, assets] of pageAssets.entries()) {
+            for (const asset of assets) {
+                if (runOf.has(asset)) continue;
+
+                const group = groupOf(asset);
+                const own = sequence(page, group);
+                const prev = own[own.indexOf(asset) - 1];
+                const run = prev !== undefined ? runOf.get(prev) : undefined;
+                const follows =
+                    prev !== undefined &&
+                    run?.[run.length - 1] === prev &&
+                    keyOf(asset) === keyOf(prev) &&
+                    (users.get(asset) ?? []).every((user) => {
+                        const seq = sequence(user, group);
+                        return seq.indexOf(asset) === seq.indexOf(prev) + 1;
+                    });
+
+                if (run && follows) {
+                    run.push(asset);
+                    runOf.set(asset, run);
+                    continue;
+                }
+
+                const key = keyOf(asset);
+                const created = [asset];
+                runs.set(key, [...(runs.get(key) ?? []), created]);
+                runOf.set(asset, created);
+            }
+        }
+
+        // name the chunks after the pages using them
+        const plan: ChunkPlan = {
+            chunks: new Map(),
+            pages: new Map(),
+            groups: new Map(),
+        };
+        const chunkOf = new Map<string[], string>();
+        for (const keyRuns of runs.values()) {
+            keyRuns.forEach((run, i) => {
+                const first = run[0] as string;
+                const used = users.get(first) ?? [];
+                let name =
+                    used.length === 1
+                        ? path.posix.join(
+                              PAGE_CHUNK_DIR,
+                              (used[0] as string)
+                                  .split(path.sep)
+                                  .join('/')
+                                  .replace(/\.html$/, ''),
+                          )
+                        : used.length === pages.length
+                          ? SHARED_CHUNK_NAME
+                          : `${SHARED_CHUNK_NAME}-${crypto
+                                .createHash('md5')
+                                .update(used.join('\n'))
+                                .digest('hex')
+                                .slice(0, 8)}`;
+                if (i > 0) name += `-${i + 1}`;
+
+                let chunk = `${name}${ext}`;
+                if (type === 'js') {
+                    const group = groupOf(first) as ScriptGroup;
+                    chunk = formatScriptBundleName(chunk, group);
+                    plan.groups.set(chunk, group);
+                }
+
+                plan.chunks.set(chunk, run);
+                chunkOf.set(run, chunk);
+            });
+        }
+
+        // the chunks of a page, in the order of their first asset
+        for (const [page, assets] of pageAssets.entries()) {
+            const chunks: string[] = [];
+            for (const asset of assets) {
+                const chunk = chunkOf.get(runOf.get(asset) ?? []);
+                if (chunk !== undefined && !chunks.includes(chunk))
+                    chunks.push(chunk);
+            }
+            plan.pages.set(page, chunks);
+        }
+
+        logger.debug(
+            `planned ${plan.chunks.size} ${type} chunks for ${pages.length} pages`,
+        );
+        return plan;
+    }
+
+    /**
+     * Export the dependency graph, optionally filtered.
+     * @param filter the filters to apply
+     * @returns the nodes & edges of the graph
+     * @throws {GraphError} if a filter node is not in the graph
+     */
+    getGraph(filter: GraphFilter = {}): GraphExport {
+        let names = new Set(this.deps.getAllNodes());
+
+        if (filter.from !== undefined) {
+            const subtree = new Set<string>();
+            this._collectSubtree(this._resolveGraphId(filter.from), subtree);
+            names = new Set([...names].filter((n) => subtree.has(n)));
+        }
+
+        if (filter.affectedBy !== undefined) {
+            const changed = this._resolveGraphId(filter.affectedBy);
+            const affected = new Set([
+                changed,
+                ...this.deps.getStaleNodes(changed),
+            ]);
+            names = new Set([...names].filter((n) => affected.has(n)));
+        }
+
+        const sorted = Array.from(names).sort((a, b) =>
+            this._formatGraphId(a).localeCompare(this._formatGraphId(b)),
+        );
+        return {
+            nodes: sorted.map((name) => ({
+                id: this._formatGraphId(name),
+                type: this._getGraphNodeType(name),
+            })),
+            edges: sorted.flatMap((name) =>
+                Array.from(this.deps.getDependencies(name) || [])
+                    .filter((dep) => names.has(dep))
+                    .map((dep) => ({
+                        from: this._formatGraphId(name),
+                        to: this._formatGraphId(dep),
+                    }))
+                    .sort((a, b) => a.to.localeCompare(b.to)),
+            ),
+        };
+    }
+
+    /**
+     * Get the type of a graph node. Pages & templates are recorded by
+     * their bare name, other assets are prefixed with their type.
+     * @param name the name of the node in the graph
+     * @returns the type of the node
+     */
+    private _getGraphNodeType(name: string): NodeType {
+        const prefix = name.substring(0, name.indexOf(':'));
+        if ((supportedNodeTypes as readonly string[]).includes(prefix))
+            return prefix as NodeType;
+        return this.assetNameToNode.get(name)?.type ?? 'page';
+    }
+
+    /**
+     * Format the id of a graph node, prefixed with its type.
+     * @param name the name of the node in the graph
+     * @returns the node id
+     */
+    private _formatGraphId(name: string) {
+        const type = this._getGraphNodeType(name);
+        return name.startsWith(`${type}:`) ? name : `${type}:${name}`;
+    }
+
+    /**
+     * Resolve a node id to the name of the node in the graph.
+     * @param id the node id, e.g. `page:index.html`
+     * @returns the name of the node in the graph
+     * @throws {GraphError} if the node is not in the graph
+     */
+    private _resolveGraphId(id: string) {
+        const name = id.replace(/^(page|tmpl):/, '');
+        if (!this.deps.getAllNodes().includes(name))
+            throw new GraphError(
+                `node ${id} not found in the dependency graph`,
+            );
+        return name;
+    }
+
+    /**
+     * Collect a node & everything it depends on.
+     * @param node the node to start from
+     * @param seen collects the nodes of the subtree
+     */
+    private _collectSubtree(node: string, seen: Set<string>) {
+        if (seen.has(node)) return;
+        seen.add(node);
+        for (const dep of this.deps.getDependencies(node) || [])
+            this._collectSubtree(dep, seen);
+    }
+
     /**
      * Get the size of a subtree.
      * @param node the node to check
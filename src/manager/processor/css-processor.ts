@@ -1,30 +1,71 @@
-import { gatherCssFiles, gatherLocalAsstesUri } from '@/utils/glob.js';
+import { gatherCssFiles } from '@/utils/glob.js';
 import {
     AssetProcessor,
     type GetPages,
     type AssetNode,
     type AssetProcessorContext,
+    type BundleResult,
+    type BundleSource,
+    type ChunksAssetContext,
+    type NodeType,
+    type TemplatesAssetContext,
 } from './processor.js';
 import path from 'path';
 import fs from 'fs';
 import { ensureDir } from '@/utils/dir.js';
 import cssnano from 'cssnano';
 import { LRUCache } from '@/lib/lru-cache.js';
-import { PurgeCSS } from 'purgecss';
+import { mergeExtractorSelectors, PurgeCSS, type RawContent } from 'purgecss';
 import { fingerprint } from '@/utils/hasher.js';
 import { logger } from '@/utils/logger.js';
-import { limit } from '@/utils/other.js';
+import { limit, replaceAsync } from '@/utils/other.js';
 import autoprefixer from 'autoprefixer';
-import postcss from 'postcss';
+import postcss, {
+    type AtRule,
+    atRule as createAtRule,
+    type Declaration,
+    type Root,
+    parse,
+    root as createRoot,
+} from 'postcss';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
 import { CSS_BUNDLE_NAME } from '@/utils/constants/bundle.js';
 import { type EmitterEventType } from '@/utils/types.js';
+import {
+    MATCH_CSS_IMPORT_REGEX,
+    MATCH_CSS_URL_REGEX,
+    MATCH_FONT_EXT_REGEX,
+    MATCH_SOURCE_MAP_COMMENT_REGEX,
+} from '@/utils/constants/regex.js';
+import { assetUrl } from '@/utils/url.js';
 
 const _lruCache = new LRUCache<string, string>({ max: 100 });
+const _mapLruCache = new LRUCache<string, BundleResult>({ max: 100 });
+
+/**
+ * A stylesheet with its imports inlined and its urls rewritten.
+ */
+interface ResolvedStylesheet {
+    content: string;
+
+    // the resolved AST, its nodes keep the file they come from
+    root: Root;
+
+    // absolute paths or uris of the inlined stylesheets
+    imports: string[];
+}
+
+const isRemote = (uri: string) => /^https?:\/\//.test(uri);
 
 export class CSSProcessor extends AssetProcessor {
     _nodeType = 'css' as const;
 
+    // stylesheet (absolute path or uri) → resolved stylesheet
+    private _stylesheets = new Map<string, ResolvedStylesheet>();
+
+    // page → the rendered html of the pages not written yet
+    private _renderedPages = new Map<string, string>();
+
     /**
      * Initialize the CSS processor.
      * @param {AssetProcessorContext} ctx the context for the asset processor
@@ -62,11 +103,13 @@ export class CSSProcessor extends AssetProcessor {
         const outDir = path.join(this._cfg.out_dir, this._nodeType);
         ensureDir(outDir);
 
-        const assets: string[] = [];
+        const assets: BundleSource[] = [];
         if (type === 'external') {
             const assetsUri = await _get();
             for (let uri of assetsUri) {
-                const data = await this._cache.fetch(uri);
+                const data =
+                    this._stylesheets.get(uri)?.content ??
+                    (await this._cache.fetch(uri));
                 await this._pluginManager.callHook(
                     'onAsset',
                     this._cfg,
@@ -74,13 +117,10 @@ export class CSSProcessor extends AssetProcessor {
                     data,
                     outDir,
                 );
-                assets.push(data);
+                assets.push({ uri, content: data });
             }
         } else {
-            let assetsUri = await gatherLocalAsstesUri(
-                this._cfg,
-                this._nodeType,
-            );
+            let assetsUri = await _get();
 
             assetsUri =
                 (await this._pluginManager.callHook(
@@ -91,10 +131,19 @@ export class CSSProcessor extends AssetProcessor {
                 )) || assetsUri;
             const batchSize = 4;
 
+            // stylesheets imported by another one are already inlined
+            const listed = new Set(assetsUri);
+            assetsUri = assetsUri.filter((f) => !this._isInlined(f, listed));
+
             for (let i = 0; i < assetsUri.length; i += batchSize) {
                 const batch = assetsUri.slice(i, i + batchSize);
                 const results = await Promise.all(
-                    batch.map((f) => fs.promises.readFile(f, 'utf8')),
+                    batch.map(async (f) => ({
+                        uri: f,
+                        content:
+                            this._stylesheets.get(f)?.content ??
+                            (await fs.promises.readFile(f, 'utf8')),
+                    })),
                 );
                 assets.push(...results);
             }
@@ -103,6 +152,298 @@ export class CSSProcessor extends AssetProcessor {
         return assets as T;
     }
 
+    /**
+     * Check whether a stylesheet of the bundle is inlined into another
+     * one. Of two stylesheets importing each other, the first by name
+     * is kept.
+     * @param uri the absolute path or uri of the stylesheet
+     * @param listed the stylesheets of the bundle
+     * @returns whether the stylesheet is inlined
+     */
+    private _isInlined(uri: string, listed: Set<string>) {
+        const own = this._stylesheets.get(uri)?.imports ?? [];
+        return Array.from(listed).some(
+            (other) =>
+                other !== uri &&
+                (this._stylesheets.get(other)?.imports ?? []).includes(uri) &&
+                !(own.includes(other) && uri < other),
+        );
+    }
+
+    /**
+     * Resolve a stylesheet: inline its imports in cascade order, rewrite
+     * its relative urls to the output paths & copy the referenced fonts
+     * and images. Every import & asset is recorded as a node the
+     * stylesheet depends on.
+     * @param ctx the context for the asset processor
+     * @param relPath the relative path or uri of the stylesheet
+     * @returns the resolved stylesheet
+     */
+    override async build(
+        ctx: AssetProcessorContext & TemplatesAssetContext & ChunksAssetContext,
+        relPath: string,
+    ): Promise<string> {
+        const uri = isRemote(relPath)
+            ? relPath
+            : path.join(this._cfg.src_dir, relPath);
+        const cssNode = `css:${relPath}`;
+
+        // drop the previously recorded imports & assets of the stylesheet,
+        // they are recorded again while resolving it
+        for (const dep of ctx.getDependencies(cssNode))
+            ctx.removeDependency(cssNode, dep);
+
+        const content = await this._read(uri);
+        if (content === undefined) {
+            logger.debug(`stylesheet ${relPath} not found, skipping`);
+            this._stylesheets.delete(uri);
+            return '';
+        }
+
+        const imports: string[] = [];
+        const root = await this._resolve(
+            ctx,
+            cssNode,
+            content,
+            uri,
+            [uri],
+            imports,
+        );
+
+        const resolved = { content: root.toString(), root, imports };
+        this._stylesheets.set(uri, resolved);
+        return resolved.content;
+    }
+
+    /**
+     * Read a local or remote stylesheet.
+     * @param uri the absolute path or uri of the stylesheet
+     * @returns the stylesheet, undefined if it does not exist
+     */
+    private async _read(uri: string): Promise<string | undefined> {
+        if (isRemote(uri)) return this._cache.fetch(uri);
+        if (!fs.existsSync(uri)) return undefined;
+        return fs.promises.readFile(uri, 'utf8');
+    }
+
+    /**
+     * Format the node name of a local or remote file.
+     * @param uri the absolute path or uri of the file
+     * @returns the node name
+     */
+    private _formatName(uri: string) {
+        return isRemote(uri) ? uri : path.relative(this._cfg.src_dir, uri);
+    }
+
+    /**
+     * Resolve the imports & urls of a stylesheet, recursively.
+     * @param ctx the context for the asset processor
+     * @param cssNode the node of the stylesheet being built
+     * @param content the content of the stylesheet
+     * @param from the absolute path or uri of the stylesheet
+     * @param stack the stylesheets being imported, to detect cycles
+     * @param imports collects the inlined stylesheets
+     * @returns the resolved stylesheet as AST
+     */
+    private async _resolve(
+        ctx: AssetProcessorContext,
+        cssNode: string,
+        content: string,
+        from: string,
+        stack: string[],
+        imports: string[],
+    ): Promise<Root> {
+        const root = parse(content, { from });
+
+        // 1. Rewrite the urls, relative to this stylesheet
+        const decls: Declaration[] = [];
+        root.walkDecls((decl) => {
+            if (/url\(/i.test(decl.value)) decls.push(decl);
+        });
+        for (const decl of decls) {
+            decl.value = await replaceAsync(
+                decl.value,
+                MATCH_CSS_URL_REGEX,
+                async (match, quote = '', ref = '') => {
+                    const uri = await this._copyAsset(ctx, cssNode, ref, from);
+                    return uri === undefined
+                        ? match
+                        : `url(${quote}${uri}${quote})`;
+                },
+            );
+        }
+
+        // 2. Inline the imports in place, so the cascade order is kept
+        const rules: AtRule[] = [];
+        root.walkAtRules('import', (rule) => {
+            rules.push(rule);
+        });
+        for (const rule of rules) {
+            const m = MATCH_CSS_IMPORT_REGEX.exec(rule.params.trim());
+            const ref = m?.[2];
+            const media = m?.[3]?.trim() ?? '';
+            if (!ref || /^(layer|supports)\b/.test(media)) {
+                logger.warn(
+                    `cannot inline @import ${rule.params} in ${this._formatName(from)}, keeping it`,
+                );
+                continue;
+            }
+
+            // remote imports are inlined from shared domains only
+            const target = isRemote(ref)
+                ? ref
+                : isRemote(from)
+                  ? new URL(ref, from).href
+                  : path.resolve(path.dirname(from), ref);
+            if (
+                isRemote(target) &&
+                !this._cfg.shared_domains.some((d) => target.startsWith(d))
+            )
+                continue;
+
+            if (stack.includes(target)) {
+                logger.warn(
+                    `circular @import of ${this._formatName(target)} in ${this._formatName(from)}, skipping`,
+                );
+                rule.remove();
+                continue;
+            }
+
+            const child = await this._read(target);
+            if (child === undefined) {
+                logger.warn(
+                    `could not find ${this._formatName(target)} imported by ${this._formatName(from)}`,
+                );
+                continue;
+            }
+
+            imports.push(target);
+            ctx.addDependency(cssNode, `css:${this._formatName(target)}`);
+
+            const childRoot = await this._resolve(
+                ctx,
+                cssNode,
+                child,
+                target,
+                [...stack, target],
+                imports,
+            );
+            childRoot.walkAtRules('charset', (charset) => {
+                charset.remove();
+            });
+
+            if (media.length > 0) {
+                const wrapper = createAtRule({
+                    name: 'media',
+                    params: media,
+                    source: rule.source,
+                });
+                wrapper.append(childRoot.nodes);
+                rule.replaceWith(wrapper);
+            } else {
+                rule.replaceWith(childRoot.nodes);
+            }
+        }
+
+        return root;
+    }
+
+    /**
+     * Copy an asset referenced by a stylesheet to the output directory.
+     * Local assets keep their path relative to the src dir, assets of
+     * shared domains are named after their fingerprint.
+     * @param ctx the context for the asset processor
+     * @param cssNode the node of the stylesheet being built
+     * @param ref the referenced url
+     * @param from the absolute path or uri of the stylesheet
+     * @returns the output uri of the asset, undefined to keep the url
+     */
+    private async _copyAsset(
+        ctx: AssetProcessorContext,
+        cssNode: string,
+        ref: string,
+        from: string,
+    ): Promise<string | undefined> {
+        ref = ref.trim();
+        if (/^(data:|#|\/\/)/i.test(ref)) return undefined;
+        if (!isRemote(from) && (isRemote(ref) || ref.startsWith('/')))
+            return undefined;
+
+        // keep the query & hash, e.g. font.woff2?v=1#iefix
+        const [, file = ref, suffix = ''] = /^([^?#]*)(.*)$/.exec(ref) ?? [];
+        const type: NodeType = MATCH_FONT_EXT_REGEX.test(file) ? 'font' : 'img';
+
+        if (isRemote(from)) {
+            const target = new URL(file, from).href;
+            if (!this._cfg.shared_domains.some((d) => target.startsWith(d)))
+                return `${target}${suffix}`;
+
+            const name = `${await fingerprint(target)}${path.extname(new URL(target).pathname)}`;
+            const data = await this._cache.fetchBuffer(target);
+            ensureDir(this._cfg.out_dir);
+            const dst = path.join(this._cfg.out_dir, name);
+            fs.writeFileSync(dst, data);
+            await this._pluginManager.callHook(
+                'onAssetWritten',
+                this._cfg,
+                type === 'font' ? 'font' : 'image',
+                dst,
+            );
+
+            ctx.addNode({ type, name: target, absPath: target });
+            ctx.addDependency(cssNode, `${type}:${target}`);
+            return `${assetUrl(this._cfg, name)}${suffix}`;
+        }
+
+        const absPath = path.resolve(path.dirname(from), decodeURI(file));
+        const relPath = path.relative(this._cfg.src_dir, absPath);
+        if (relPath.startsWith('..') || !fs.existsSync(absPath)) {
+            logger.warn(
+                `could not find ${file} referenced by ${this._formatName(from)}`,
+            );
+            return undefined;
+        }
+
+        const dst = path.join(this._cfg.out_dir, relPath);
+        ensureDir(path.dirname(dst));
+        fs.copyFileSync(absPath, dst);
+        await this._pluginManager.callHook(
+            'onAssetWritten',
+            this._cfg,
+            type === 'font' ? 'font' : 'image',
+            dst,
+        );
+
+        ctx.addNode({ type, name: relPath, absPath });
+        ctx.addDependency(cssNode, `${type}:${relPath}`);
+        return `${assetUrl(this._cfg, relPath)}${suffix}`;
+    }
+
+    /**
+     * Purge the bundles against the rendered html of the pages not
+     * written yet, instead of their written file.
+     * @param pages page → the rendered html
+     */
+    setRenderedPages(pages: Map<string, string>) {
+        this._renderedPages = pages;
+    }
+
+    /**
+     * Get the content the bundles are purged against.
+     * @param pages the relative paths of the pages
+     * @returns the written pages & the rendered html of the others
+     */
+    private _getPurgeContent(pages: string[]) {
+        const files: string[] = [];
+        const raw: RawContent[] = [];
+        for (const page of pages) {
+            const html = this._renderedPages.get(page);
+            if (html !== undefined) raw.push({ raw: html, extension: 'html' });
+            else files.push(path.join(this._cfg.out_dir, page));
+        }
+        return { files, raw };
+    }
+
     override async minify(
         bundle: string,
         getAllPages: GetPages,
@@ -110,23 +451,28 @@ export class CSSProcessor extends AssetProcessor {
         if (!this._cfg.css.minify) return bundle;
 
         // 1. Purge CSS
+        const { files, raw } = this._getPurgeContent(await getAllPages());
         const purge = new PurgeCSS();
         const purged = await purge.purge({
-            content: (await getAllPages()).map((p) =>
-                path.join(this._cfg.out_dir, p),
-            ),
+            content: [...files, ...raw],
             css: [{ raw: bundle }],
         });
 
         bundle = purged[0]?.css ?? bundle;
 
         // 2. Check if the bundle is already cached
-        const hash = await fingerprint(bundle);
+        const hash = await this._buildCache.key('css', bundle);
         if (_lruCache.has(hash)) {
             logger.debug(`css bundle found in cache → ${hash}`);
             return _lruCache.get(hash) as string;
         }
 
+        const cached = this._buildCache.get(hash);
+        if (cached !== undefined) {
+            _lruCache.set(hash, cached);
+            return cached;
+        }
+
         // 3. Minify the CSS
         logger.debug(`minifying CSS bundle using PostCSS + cssnano...`);
         const res = await limit(() =>
@@ -138,19 +484,143 @@ export class CSSProcessor extends AssetProcessor {
 
         // 4. Cache the bundle
         _lruCache.set(hash, bundle);
+        this._buildCache.set(hash, bundle);
 
         return bundle;
     }
 
-    override async write(bundle: string) {
+    /**
+     * Extract the critical css of a page: the rules of its bundles used
+     * by the above-the-fold markup.
+     * @param chunks the css bundles of the page, relative to the out dir
+     * @param html the above-the-fold html of the page
+     * @returns the critical css
+     */
+    async critical(chunks: string[], html: string): Promise<string> {
+        const css = chunks
+            .map((chunk) => path.join(this._cfg.out_dir, chunk))
+            .filter((dst) => fs.existsSync(dst))
+            .map((dst) =>
+                fs
+                    .readFileSync(dst, 'utf8')
+                    .replace(MATCH_SOURCE_MAP_COMMENT_REGEX, ''),
+            )
+            .join('\n');
+        if (css.trim().length === 0) return '';
+
+        const purged = await new PurgeCSS().purge({
+            content: [{ raw: html, extension: 'html' }],
+            css: [{ raw: css }],
+        });
+
+        let critical = purged[0]?.css ?? '';
+        if (this._cfg.css.minify) {
+            const res = await limit(() =>
+                postcss([cssnano]).process(critical, { from: undefined }),
+            );
+            critical = res.css;
+        }
+
+        return critical.trim();
+    }
+
+    override async bundle(
+        sources: BundleSource[],
+        getAllPages: GetPages,
+        name = CSS_BUNDLE_NAME,
+    ): Promise<BundleResult> {
+        if (!this._cfg.css.sourcemap) return super.bundle(sources, getAllPages);
+
+        // 1. Parse every source on its own, so each rule keeps its origin.
+        // The resolved stylesheets keep the origin of their inlined imports
+        const root = createRoot();
+        for (const { uri, content } of sources) {
+            const resolved = this._stylesheets.get(uri);
+            root.append(
+                resolved?.content === content
+                    ? resolved.root.clone().nodes
+                    : parse(content, {
+                          from: isRemote(uri) ? uri : path.resolve(uri),
+                      }).nodes,
+            );
+        }
+
+        // 2. Purge CSS on the AST, keeping the node sources intact
+        if (this._cfg.css.minify) {
+            const { files, raw } = this._getPurgeContent(await getAllPages());
+            const purge = new PurgeCSS();
+            const selectors = mergeExtractorSelectors(
+                await purge.extractSelectorsFromFiles(
+                    files,
+                    purge.options.extractors,
+                ),
+                await purge.extractSelectorsFromString(
+                    raw,
+                    purge.options.extractors,
+                ),
+            );
+            purge.walkThroughCSS(root, selectors);
+        }
+
+        // 3. Check if the bundle is already cached, the purged css is part
+        // of the key as it depends on the pages
+        const dst = path.join(this._cfg.out_dir, this._nodeType, name);
+        const hash = await this._buildCache.key(
+            'css-map',
+            [dst]
+                .concat(sources.map(({ uri, content }) => `${uri}\n${content}`))
+                .concat(this._cfg.css.minify ? root.toString() : [])
+                .join('\n'),
+        );
+        if (_mapLruCache.has(hash)) {
+            logger.debug(`css bundle found in cache → ${hash}`);
+            return _mapLruCache.get(hash) as BundleResult;
+        }
+
+        const cached = this._buildCache.get(hash);
+        if (cached !== undefined) {
+            const result = JSON.parse(cached) as BundleResult;
+            _mapLruCache.set(hash, result);
+            return result;
+        }
+
+        // 4. Minify the CSS & generate the map, sources relative to the bundle
+        logger.debug(`bundling CSS with source map using PostCSS...`);
+        const opts = {
+            from: undefined,
+            to: dst,
+            map: { inline: false, annotation: false, sourcesContent: true },
+        };
+        // without plugins, postcss re-parses the css & loses the sources
+        const res = await limit(() =>
+            this._cfg.css.minify
+                ? postcss([autoprefixer, cssnano]).process(root, opts)
+                : Promise.resolve(root.toResult(opts)),
+        );
+
+        const result = { code: res.css, map: res.map.toString() };
+
+        // 5. Cache the bundle
+        _mapLruCache.set(hash, result);
+        this._buildCache.set(hash, JSON.stringify(result));
+
+        return result;
+    }
+
+    override async write(bundle: string, name = CSS_BUNDLE_NAME, map?: string) {
         logger.debug(`calling ${terminalPretty.underline('post-bundle')} hook`);
-        bundle =
-            (await this._pluginManager.callHook(
-                'onPostBundle',
-                this._cfg,
-                this._nodeType,
-                bundle,
-            )) || bundle;
+        const result = await this._pluginManager.callHook(
+            'onPostBundle',
+            this._cfg,
+            this._nodeType,
+            bundle,
+            map,
+        );
+        if (typeof result === 'string') bundle = result;
+        else if (result) {
+            bundle = result.content;
+            map = result.map ?? map;
+        }
 
         const outDir = path.join(this._cfg.out_dir, this._nodeType);
         ensureDir(outDir);
@@ -159,6 +629,23 @@ export class CSSProcessor extends AssetProcessor {
             `writing bundle to disk → ${terminalPretty.underline(path.relative(process.cwd(), outDir))}`,
         );
 
-        fs.writeFileSync(path.join(outDir, CSS_BUNDLE_NAME), bundle, 'utf8');
+        const dst = path.join(outDir, name);
+        ensureDir(path.dirname(dst));
+
+        if (map) {
+            const json = JSON.parse(map);
+            json.file = path.basename(dst);
+            fs.writeFileSync(`${dst}.map`, JSON.stringify(json), 'utf8');
+            bundle += `\n/*# sourceMappingURL=${path.basename(dst)}.map */`;
+        }
+
+        fs.writeFileSync(dst, bundle, 'utf8');
+
+        await this._pluginManager.callHook(
+            'onAssetWritten',
+            this._cfg,
+            this._nodeType,
+            dst,
+        );
     }
 }
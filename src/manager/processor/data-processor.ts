@@ -0,0 +1,129 @@
+import path from 'path';
+import {
+    AssetProcessor,
+    type GetPages,
+    type AssetNode,
+    type AssetProcessorContext,
+} from './processor.js';
+import { gatherDataFiles } from '@/utils/glob.js';
+import { readDataFile } from '@/utils/data.js';
+import { DataError } from '@/error/data-error.js';
+import { logger } from '@/utils/logger.js';
+import { DATA_DIR_NAME } from '@/utils/constants/file-name.js';
+import { type EmitterEventType } from '@/utils/types.js';
+
+/**
+ * The data files of the site, as read by the templates & the pages.
+ */
+export interface SiteData {
+    // the `site.data` object, e.g. `data/team.json` → `site.data.team`
+    data: Record<string, unknown>;
+
+    // key path in `site.data` → the name of the data node
+    files: Record<string, string>;
+}
+
+export class DataProcessor extends AssetProcessor {
+    _nodeType = 'data' as const;
+
+    // node name → the parsed data file
+    private _data = new Map<string, unknown>();
+
+    /**
+     * Initialize the data processor.
+     * @param {AssetProcessorContext} ctx the context for the asset processor
+     */
+    async init(ctx: AssetProcessorContext) {
+        const absFiles = await gatherDataFiles(this._cfg);
+
+        for (const absPath of absFiles) {
+            const name = this.formatNodeName(absPath);
+            this._data.set(name, readDataFile(absPath));
+            ctx.addNode({ type: this._nodeType, name, absPath });
+        }
+    }
+
+    override patchNode(
+        ctx: AssetProcessorContext,
+        absPath: string,
+        eventType: EmitterEventType,
+    ): Promise<AssetNode> {
+        logger.debug(`patching node ${absPath} with event type ${eventType}`);
+        const node: AssetNode = {
+            type: this._nodeType,
+            name: this.formatNodeName(absPath),
+            absPath,
+        };
+
+        // the markdown files of the collections are read by their routes
+        const isDataFile = node.name.startsWith(DATA_DIR_NAME + path.sep);
+
+        if (eventType === 'unlink') {
+            // the graph keys the data nodes by their prefixed name, the
+            // builder rebuilds the pages reading the file
+            this._data.delete(node.name);
+            ctx.removeNode(`data:${node.name}`);
+            ctx.removeNode(node.name);
+        } else if (eventType !== 'addDir' && eventType !== 'unlinkDir') {
+            if (isDataFile) this._data.set(node.name, readDataFile(absPath));
+            ctx.addNode(node);
+        }
+
+        return Promise.resolve(node);
+    }
+
+    /**
+     * Get the site data, nested by the folders of the data dir.
+     * @returns the site data & the data file of each key path
+     * @throws {DataError} if two data files set the same key path
+     */
+    override async getAssets<T>(
+        _type: 'external' | 'local',
+        _pagesFn: GetPages,
+    ): Promise<T> {
+        const site: SiteData = { data: {}, files: {} };
+
+        for (const [name, value] of this._data) {
+            const keys = path
+                .relative(DATA_DIR_NAME, name)
+                .replace(/\.[^./\\]+$/, '')
+                .split(path.sep);
+            const keyPath = keys.join('.');
+
+            // e.g. `data/team.json` & `data/team.yaml`, or `data/team.json`
+            // & `data/team/leads.json`
+            const other = Object.entries(site.files).find(
+                ([key]) =>
+                    `${key}.`.startsWith(`${keyPath}.`) ||
+                    `${keyPath}.`.startsWith(`${key}.`),
+            );
+            if (other) {
+                const [key, file] = other;
+                throw new DataError(
+                    `data files ${file} & ${name} both set site.data.${key.length < keyPath.length ? key : keyPath}`,
+                );
+            }
+
+            const last = keys.pop() ?? '';
+
+            let scope = site.data;
+            for (const key of keys) {
+                if (typeof scope[key] !== 'object' || scope[key] === null)
+                    scope[key] = {};
+                scope = scope[key] as Record<string, unknown>;
+            }
+            scope[last] = value;
+            site.files[keyPath] = name;
+        }
+
+        return site as T;
+    }
+
+    override minify(bundle: string, _getAllPages: GetPages): Promise<string> {
+        return Promise.resolve(bundle);
+    }
+
+    override write(_bundle: string): Promise<void> {
+        return Promise.resolve();
+    }
+}
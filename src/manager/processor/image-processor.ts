@@ -102,6 +102,12 @@ export class ImagesProcessor extends AssetProcessor {
                             data,
                             dst,
                         );
+                        await this._pluginManager.callHook(
+                            'onAssetWritten',
+                            this._cfg,
+                            'image',
+                            dst,
+                        );
                     }),
                 ),
             );
@@ -137,6 +143,12 @@ export class ImagesProcessor extends AssetProcessor {
                         '',
                         dst,
                     );
+                    await this._pluginManager.callHook(
+                        'onAssetWritten',
+                        this._cfg,
+                        'image',
+                        dst,
+                    );
                 }),
             ),
         );
@@ -1,27 +1,62 @@
-import { gatherJsFiles, gatherLocalAsstesUri } from '@/utils/glob.js';
+import { gatherJsFiles } from '@/utils/glob.js';
 import {
     AssetProcessor,
+    type ChunksAssetContext,
     type GetPages,
     type AssetNode,
     type AssetProcessorContext,
+    type BundleResult,
+    type BundleSource,
+    type TemplatesAssetContext,
 } from './processor.js';
 import fs from 'fs';
 import { LRUCache } from '@/lib/lru-cache.js';
-import { fingerprint } from '@/utils/hasher.js';
 import { logger } from '@/utils/logger.js';
 import { limit } from '@/utils/other.js';
-import { minify } from 'terser';
+import { type MinifyOptions, minify } from 'terser';
 import { ensureDir } from '@/utils/dir.js';
 import path from 'path';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
-import { JS_BUNDLE_NAME } from '@/utils/constants/bundle.js';
+import {
+    JS_BUNDLE_NAME,
+    MODULE_RESOLVE_SUFFIXES,
+} from '@/utils/constants/bundle.js';
 import { type EmitterEventType } from '@/utils/types.js';
+import { type RollupCache, rollup } from 'rollup';
+import { BundleError } from '@/error/bundle-error.js';
 
 const _lruCache = new LRUCache<string, string>({ max: 100 });
+const _mapLruCache = new LRUCache<string, BundleResult>({ max: 100 });
+
+/**
+ * A module entry bundled together with its imports.
+ */
+interface ModuleBundle {
+    code: string;
+
+    // the source map of the bundle, its sources are absolute paths
+    map?: string;
+
+    // absolute paths of the imported files
+    imports: string[];
+
+    // the imports no page loads directly, they only ship as part of
+    // the bundle
+    files: string[];
+
+    // the imports only loaded by pages that load the entry too
+    covered: string[];
+}
 
 export class JsProcessor extends AssetProcessor {
     _nodeType = 'js' as const;
 
+    // module entry (absolute path) → bundled module
+    private _modules = new Map<string, ModuleBundle>();
+
+    // module entry (absolute path) → rollup cache of the last build
+    private _rollupCache = new Map<string, RollupCache>();
+
     /**
      * Initialize the JS processor.
      * @param {AssetProcessorContext} ctx the context for the asset processor
@@ -46,7 +81,7 @@ export class JsProcessor extends AssetProcessor {
         const outDir = path.join(this._cfg.out_dir, this._nodeType);
         ensureDir(outDir);
 
-        const assets: string[] = [];
+        const assets: BundleSource[] = [];
         if (type === 'external') {
             const assetsUri = await _get();
             for (let uri of assetsUri) {
@@ -58,13 +93,10 @@ export class JsProcessor extends AssetProcessor {
                     data,
                     outDir,
                 );
-                assets.push(data);
+                assets.push({ uri, content: data });
             }
         } else {
-            let assetsUri = await gatherLocalAsstesUri(
-                this._cfg,
-                this._nodeType,
-            );
+            let assetsUri = await _get();
 
             assetsUri =
                 (await this._pluginManager.callHook(
@@ -75,10 +107,33 @@ export class JsProcessor extends AssetProcessor {
                 )) || assetsUri;
             const batchSize = 4;
 
+            // module entries are replaced by their bundle, the files
+            // they import are already part of it
+            const inlined = new Set(
+                Array.from(this._modules.values()).flatMap((m) => m.files),
+            );
+            const listed = new Set(assetsUri);
+            assetsUri = assetsUri.filter((f) =>
+                this._modules.has(f)
+                    ? !this._isInlinedEntry(f, listed)
+                    : !inlined.has(f),
+            );
+
             for (let i = 0; i < assetsUri.length; i += batchSize) {
                 const batch = assetsUri.slice(i, i + batchSize);
                 const results = await Promise.all(
-                    batch.map((f) => fs.promises.readFile(f, 'utf8')),
+                    batch.map(async (f) => {
+                        const module = this._modules.get(f);
+                        return module
+                            ? { uri: f, content: module.code, map: module.map }
+                            : {
+                                  uri: f,
+                                  content: await fs.promises.readFile(
+                                      f,
+                                      'utf8',
+                                  ),
+                              };
+                    }),
                 );
                 assets.push(...results);
             }
@@ -100,22 +155,183 @@ export class JsProcessor extends AssetProcessor {
         });
     }
 
+    /**
+     * Bundle a module entry and its imports into a single scope. Every
+     * imported file is recorded as a js node the entry depends on.
+     * @param ctx the context for the asset processor
+     * @param relPath the relative path of the module entry
+     * @returns the bundled module
+     */
+    override async build(
+        ctx: AssetProcessorContext & TemplatesAssetContext & ChunksAssetContext,
+        relPath: string,
+    ): Promise<string> {
+        const absEntry = path.join(this._cfg.src_dir, relPath);
+        const entryNode = `js:${relPath}`;
+
+        // drop the previously recorded imports of the entry,
+        // they are recorded again from the new module graph
+        for (const dep of ctx.getDependencies(entryNode))
+            ctx.removeDependency(entryNode, dep);
+
+        if (!fs.existsSync(absEntry)) {
+            logger.debug(`module entry ${relPath} not found, skipping`);
+            this._modules.delete(absEntry);
+            this._rollupCache.delete(absEntry);
+            return '';
+        }
+
+        logger.debug(
+            `bundling js module → ${terminalPretty.underline(relPath)}`,
+        );
+
+        let code: string;
+        let map: string | undefined;
+        let files: string[];
+        try {
+            const bundle = await limit(() =>
+                rollup({
+                    input: absEntry,
+                    cache: this._rollupCache.get(absEntry),
+                    plugins: [
+                        {
+                            name: 'minimalify:resolve',
+                            resolveId: (source, importer) =>
+                                importer === undefined
+                                    ? null
+                                    : this._resolveImport(source, importer),
+                        },
+                    ],
+                    onwarn: (warning) =>
+                        logger.warn(`${relPath}: ${warning.message}`),
+                }),
+            );
+
+            const { output } = await bundle.generate({
+                format: 'iife',
+                sourcemap: this._cfg.js.sourcemap ? 'hidden' : false,
+                sourcemapPathTransform: (source, mapPath) =>
+                    path.resolve(path.dirname(mapPath), source),
+            });
+            code = output[0].code;
+            map = output[0].map?.toString();
+            files = bundle.watchFiles.filter((f) => f !== absEntry);
+
+            if (bundle.cache) this._rollupCache.set(absEntry, bundle.cache);
+            await bundle.close();
+        } catch (e) {
+            if (e instanceof BundleError) throw e;
+            throw new BundleError(
+                `failed to bundle js module ${relPath}: ${(e as Error).message}`,
+            );
+        }
+
+        for (const absPath of files) {
+            const name = this.formatNodeName(absPath);
+            ctx.addNode({ type: this._nodeType, name, absPath });
+            ctx.addDependency(entryNode, `js:${name}`);
+        }
+
+        // an import a page also loads as a script keeps its own bundle entry
+        const pagesOf = (absPath: string) =>
+            ctx
+                .getDependents(`js:${this.formatNodeName(absPath)}`)
+                .filter((dep) => ctx.getNodeByName(dep)?.type === 'page');
+        const entryPages = pagesOf(absEntry);
+
+        this._modules.set(absEntry, {
+            code,
+            map,
+            imports: files,
+            files: files.filter((absPath) => pagesOf(absPath).length === 0),
+            covered: files.filter((absPath) =>
+                pagesOf(absPath).every((page) => entryPages.includes(page)),
+            ),
+        });
+        return code;
+    }
+
+    /**
+     * Check whether a module entry already runs as part of another entry:
+     * one bundled with it, or one every page loading it loads too. Of two
+     * entries importing each other, the first one is kept.
+     * @param absEntry the absolute path of the module entry
+     * @param listed the files bundled together with the entry
+     * @returns whether the entry is dropped from the bundle
+     */
+    private _isInlinedEntry(absEntry: string, listed: Set<string>) {
+        const own = this._modules.get(absEntry)?.imports ?? [];
+        return Array.from(this._modules.entries()).some(
+            ([other, { imports, covered }]) =>
+                other !== absEntry &&
+                (covered.includes(absEntry) ||
+                    (listed.has(other) && imports.includes(absEntry))) &&
+                !(own.includes(other) && absEntry < other),
+        );
+    }
+
+    /**
+     * Resolve an import of a module to its file: the file a plugin
+     * resolves it to, else the relative file, trying the extensions of
+     * `MODULE_RESOLVE_SUFFIXES` when the import has none.
+     * @param source the imported path
+     * @param importer the absolute path of the importing file
+     * @returns the absolute path of the imported file
+     * @throws {BundleError} if the import is not relative or not found
+     */
+    private async _resolveImport(
+        source: string,
+        importer: string,
+    ): Promise<string> {
+        const resolved = await this._pluginManager.callHook(
+            'onResolveImport',
+            this._cfg,
+            source,
+            importer,
+        );
+        if (typeof resolved === 'string') return resolved;
+
+        // root relative imports resolve from the src dir
+        let base: string;
+        if (source.startsWith('/')) base = path.join(this._cfg.src_dir, source);
+        else if (/^\.{1,2}\//.test(source))
+            base = path.resolve(path.dirname(importer), source);
+        else
+            throw new BundleError(
+                `cannot resolve "${source}" imported by ${this.formatNodeName(importer)}, only relative imports are supported`,
+            );
+
+        const file = MODULE_RESOLVE_SUFFIXES.map(
+            (suffix) => base + suffix,
+        ).find((f) => fs.statSync(f, { throwIfNoEntry: false })?.isFile());
+        if (file === undefined)
+            throw new BundleError(
+                `cannot resolve "${source}" imported by ${this.formatNodeName(importer)}, no such file`,
+            );
+
+        return file;
+    }
+
     override async minify(
         bundle: string,
         _getAllPages: GetPages,
     ): Promise<string> {
         if (!this._cfg.js.minify) return bundle;
 
-        const hash = await fingerprint(bundle);
+        const hash = await this._buildCache.key('js', bundle);
         if (_lruCache.has(hash)) {
             logger.debug(`js bundle found in cache → ${hash}`);
             return _lruCache.get(hash) as string;
         }
 
+        const cached = this._buildCache.get(hash);
+        if (cached !== undefined) {
+            _lruCache.set(hash, cached);
+            return cached;
+        }
+
         logger.debug(`minifying js bundle using terser`);
-        const res = await limit(() =>
-            minify(bundle, this._cfg.js.minify_options),
-        );
+        const res = await limit(() => minify(bundle, this._minifyOptions()));
 
         if (res.code === undefined) {
             logger.error(`failed to minify js bundle`);
@@ -123,19 +339,150 @@ export class JsProcessor extends AssetProcessor {
         }
 
         _lruCache.set(hash, res.code);
+        this._buildCache.set(hash, res.code);
 
         return res.code;
     }
 
-    override async write(bundle: string) {
+    override async bundle(
+        sources: BundleSource[],
+        getAllPages: GetPages,
+        name = JS_BUNDLE_NAME,
+    ): Promise<BundleResult> {
+        // terser needs a file to map, the bundle of a group may be empty
+        if (!this._cfg.js.sourcemap || sources.length === 0)
+            return super.bundle(sources, getAllPages);
+
+        // the sources of the map are relative to the bundle
+        const dir = path.dirname(
+            path.join(this._cfg.out_dir, this._nodeType, name),
+        );
+        const hash = await this._buildCache.key(
+            'js-map',
+            JSON.stringify([dir, ...sources]),
+        );
+        if (_mapLruCache.has(hash)) {
+            logger.debug(`js bundle found in cache → ${hash}`);
+            return _mapLruCache.get(hash) as BundleResult;
+        }
+
+        const cached = this._buildCache.get(hash);
+        if (cached !== undefined) {
+            const result = JSON.parse(cached) as BundleResult;
+            _mapLruCache.set(hash, result);
+            return result;
+        }
+
+        // 1. Map every source on its own, the module bundles through the
+        // map of rollup, & join them under an index map
+        const parts: string[] = [];
+        const sections: {
+            offset: { line: number; column: number };
+            map: unknown;
+        }[] = [];
+        let line = 0;
+        for (const source of sources) {
+            const { code, map } = await this._mapSource(source, dir);
+            sections.push({ offset: { line, column: 0 }, map });
+            parts.push(code);
+            line += code.split('\n').length;
+        }
+
+        // 2. Minify the joined sources, chaining the index map. Without
+        // minification, terser only re-prints them
+        const options: MinifyOptions = this._cfg.js.minify
+            ? this._minifyOptions()
+            : {
+                  compress: false,
+                  mangle: false,
+                  format: { beautify: true, comments: 'all' },
+              };
+
+        logger.debug(`bundling js with source map using terser`);
+        const res = await limit(() =>
+            minify(
+                { [path.basename(name)]: parts.join('\n') },
+                {
+                    ...options,
+                    sourceMap: {
+                        content: JSON.stringify({ version: 3, sections }),
+                    },
+                },
+            ),
+        );
+
+        if (res.code === undefined) {
+            logger.error(`failed to bundle js with source map`);
+            return super.bundle(sources, getAllPages);
+        }
+
+        const result = {
+            code: res.code,
+            map:
+                typeof res.map === 'string' ? res.map : JSON.stringify(res.map),
+        };
+        _mapLruCache.set(hash, result);
+        this._buildCache.set(hash, JSON.stringify(result));
+
+        return result;
+    }
+
+    /**
+     * Get the source map of a bundle source, with its sources relative to
+     * the bundle. A source without a map is re-printed by terser to map it.
+     * @param source the bundle source
+     * @param dir the directory of the bundle
+     * @returns the code of the source & its source map
+     */
+    private async _mapSource(
+        { uri, content, map }: BundleSource,
+        dir: string,
+    ): Promise<{ code: string; map: unknown }> {
+        const relative = (file: string) =>
+            /^https?:\/\//.test(file)
+                ? file
+                : path.relative(dir, file).split(path.sep).join('/');
+
+        if (map !== undefined) {
+            const json = JSON.parse(map) as { sources: string[] };
+            json.sources = json.sources.map(relative);
+            return { code: content, map: json };
+        }
+
+        const res = await limit(() =>
+            minify(
+                { [relative(uri)]: content },
+                {
+                    compress: false,
+                    mangle: false,
+                    format: { comments: 'all' },
+                    sourceMap: { includeSources: true },
+                },
+            ),
+        );
+        if (res.code === undefined)
+            throw new BundleError(`failed to map js source ${uri}`);
+
+        return {
+            code: res.code,
+            map: typeof res.map === 'string' ? JSON.parse(res.map) : res.map,
+        };
+    }
+
+    override async write(bundle: string, name = JS_BUNDLE_NAME, map?: string) {
         logger.debug(`calling ${terminalPretty.underline('post-bundle')} hook`);
-        bundle =
-            (await this._pluginManager.callHook(
-                'onPostBundle',
-                this._cfg,
-                this._nodeType,
-                bundle,
-            )) || bundle;
+        const result = await this._pluginManager.callHook(
+            'onPostBundle',
+            this._cfg,
+            this._nodeType,
+            bundle,
+            map,
+        );
+        if (typeof result === 'string') bundle = result;
+        else if (result) {
+            bundle = result.content;
+            map = result.map ?? map;
+        }
 
         const outDir = path.join(this._cfg.out_dir, this._nodeType);
         ensureDir(outDir);
@@ -144,6 +491,43 @@ export class JsProcessor extends AssetProcessor {
             `writing bundle to disk → ${terminalPretty.underline(path.relative(process.cwd(), outDir))}`,
         );
 
-        fs.writeFileSync(path.join(outDir, JS_BUNDLE_NAME), bundle, 'utf8');
+        const dst = path.join(outDir, name);
+        ensureDir(path.dirname(dst));
+
+        if (map) {
+            const json = JSON.parse(map);
+            json.file = path.basename(dst);
+            fs.writeFileSync(`${dst}.map`, JSON.stringify(json), 'utf8');
+            bundle += `\n//# sourceMappingURL=${path.basename(dst)}.map`;
+        }
+
+        fs.writeFileSync(dst, bundle, 'utf8');
+
+        await this._pluginManager.callHook(
+            'onAssetWritten',
+            this._cfg,
+            this._nodeType,
+            dst,
+        );
+    }
+
+    /**
+     * Get the terser options for the bundles.
+     * @returns the terser options
+     */
+    private _minifyOptions(): MinifyOptions {
+        // chunks share the global scope, so top-level names must survive
+        const options = this._cfg.js.minify_options ?? {};
+        if (!this._cfg.js.split) return options;
+
+        const { compress } = options;
+        return {
+            ...options,
+            toplevel: false,
+            compress:
+                typeof compress === 'object'
+                    ? { ...compress, toplevel: false }
+                    : compress,
+        };
     }
 }
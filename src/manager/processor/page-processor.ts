@@ -4,6 +4,9 @@ import {
     type GetPages,
     type AssetNode,
     type AssetProcessorContext,
+    type ChunksAssetContext,
+    type ScriptChunk,
+    type ScriptGroup,
     type TemplatesAssetContext,
 } from './processor.js';
 import fs from 'fs';
@@ -11,6 +14,7 @@ import path from 'path';
 import { logger } from '@/utils/logger.js';
 import { minify as minifyHtml } from 'html-minifier-terser';
 import {
+    getScriptGroup,
     isCssValidForProcessing,
     isImgValidForProcessing,
     isJsValidForProcessing,
@@ -24,28 +28,107 @@ import {
     serialize,
 } from 'parse5';
 import { LRUCache } from '@/lib/lru-cache.js';
-import { fingerprint } from '@/utils/hasher.js';
-import { limit, parseAttrs } from '@/utils/other.js';
+import { limit } from '@/utils/other.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
 import { ensureDir } from '@/utils/dir.js';
+import { MATCH_TEMPLATE_REGEX } from '@/utils/constants/regex.js';
 import {
-    MATCH_CHILDREN_REGEX,
-    MATCH_TEMPLATE_REGEX,
-} from '@/utils/constants/regex.js';
-import { preserveHtml } from '@/utils/html.js';
+    getTemplateParams,
+    renderTemplate,
+    renderTemplateTags,
+    SafeHtml,
+} from '@/utils/template.js';
+import { collectSlots, forwardAttrs, takeMeta } from '@/utils/html.js';
+import { applyLayout, takeLayout } from '@/utils/layout.js';
+import {
+    LAYOUTS_DIR_NAME,
+    ROUTE_META_NAME,
+} from '@/utils/constants/file-name.js';
+import { TemplateError } from '@/error/template-error.js';
+import { getDataRefs } from '@/utils/data.js';
+import { DataError } from '@/error/data-error.js';
+import {
+    formatRoutePage,
+    getCollectionFiles,
+    getRouteRecords,
+    isRouteFile,
+} from '@/utils/route.js';
+import { type SiteData } from './data-processor.js';
 import { HTMLError } from '@/error/html-error.js';
-import { CSS_BUNDLE_NAME, JS_BUNDLE_NAME } from '@/utils/constants/bundle.js';
 import { type EmitterEventType } from '@/utils/types.js';
+import { assetUrl } from '@/utils/url.js';
+import { CRITICAL_FOLD_ELEMENTS } from '@/utils/constants/bundle.js';
 
 const _lruCache = new LRUCache<string, string>({ max: 100 });
 type Element = DefaultTreeAdapterMap['element'];
 
+/**
+ * The shared & module asset uris discovered in the pages.
+ */
+export interface PageAssets {
+    cssUris: string[];
+    jsUris: string[];
+    imgUris: string[];
+    moduleUris: string[];
+
+    // bundled js uri → the group of its scripts
+    jsGroups: Record<string, ScriptGroup>;
+}
+
+/**
+ * A script of a page, in document order.
+ */
+interface PageScript {
+    node: Element;
+    parent: Element | undefined;
+
+    // the bundled uri, undefined for scripts kept in place
+    src?: string;
+    group: ScriptGroup;
+}
+
+/**
+ * A page generated from a route file & a record of its data source.
+ */
+export interface PageRoute {
+    // the route file, e.g. `products/[slug].html`
+    file: string;
+
+    // the record of the page, as `record`, & the params of its path
+    record: Record<string, unknown>;
+    params: Record<string, string>;
+
+    // the data nodes the record comes from
+    dependencies: string[];
+}
+
 export class PageProcessor extends AssetProcessor {
     _nodeType = 'page' as const;
     private externalCssUri = new Set<string>();
     private externalJsUri = new Set<string>();
     private externalImgUri = new Set<string>();
 
+    // local <script type="module"> entries, relative to the src dir
+    private moduleJsUri = new Set<string>();
+
+    // bundled js uri → the group of its scripts
+    private jsGroups = new Map<string, ScriptGroup>();
+
+    // analyzed page documents waiting to be rendered
+    private _docs = new Map<string, Element>();
+
+    // page → ordered scripts of the page
+    private _scriptPlans = new Map<string, PageScript[]>();
+
+    // page → its source, while it is analyzed, for the template errors
+    private _sources = new Map<string, string>();
+
+    // the route files, expanded into a page per record
+    private _routeFiles = new Set<string>();
+
+    // generated page → its route
+    private _routes = new Map<string, PageRoute>();
+
     /**
      * Initialize the page processor.
      * @param {AssetProcessorContext} ctx the context for the asset processor
@@ -54,12 +137,151 @@ export class PageProcessor extends AssetProcessor {
         const absFiles = await gatherHtmlPages(this._cfg);
 
         for (const absPath of absFiles) {
-            ctx.addNode({
-                type: this._nodeType,
-                name: this.formatNodeName(absPath),
-                absPath,
-            });
+            const name = this.formatNodeName(absPath);
+
+            // the route files are expanded by the build
+            if (isRouteFile(name)) {
+                this._routeFiles.add(name);
+                continue;
+            }
+
+            ctx.addNode({ type: this._nodeType, name, absPath });
+        }
+    }
+
+    /**
+     * Expand the route files into a page per record of their data
+     * source, declared with a `<meta name="minimalify:route">`: a key of
+     * the site data, e.g. `products`, or a markdown collection, e.g.
+     * `posts/*.md`. The pages of the records are added to the tree, the
+     * pages of the records that are gone are removed from the tree & the
+     * out dir.
+     * @param ctx the context for the asset processor
+     * @returns the generated pages
+     * @throws {DataError} if a route has no data source or two records
+     * generate the same page
+     */
+    async expandRoutes(ctx: AssetProcessorContext & TemplatesAssetContext) {
+        const site = await this._getSiteData(ctx);
+        const previous = new Set(this._routes.keys());
+        this._routes.clear();
+
+        for (const file of Array.from(this._routeFiles).sort()) {
+            const source = this._readRouteSource(file);
+            if (!source) {
+                throw new DataError(
+                    `route ${file} has no data source, declare it with <meta name="${ROUTE_META_NAME}" content="...">`,
+                );
+            }
+
+            const records = await getRouteRecords(
+                this._cfg,
+                file,
+                source,
+                site,
+            );
+            for (const { record, dependencies } of records) {
+                const { page, params } = formatRoutePage(file, record);
+                const absPath = path.join(this._cfg.src_dir, page);
+
+                const existing = this._routes.get(page)?.file;
+                if (existing !== undefined) {
+                    throw new DataError(
+                        `page ${page} is generated twice → ${existing} and ${file}, the records need distinct params`,
+                    );
+                }
+                if (fs.existsSync(absPath)) {
+                    throw new DataError(
+                        `page ${page} of the route ${file} already exists in the src dir`,
+                    );
+                }
+
+                this._routes.set(page, { file, record, params, dependencies });
+                ctx.addNode({ type: this._nodeType, name: page, absPath });
+
+                // the markdown files of a collection are data nodes
+                for (const dep of dependencies) {
+                    const name = dep.substring('data:'.length);
+                    ctx.addNode({
+                        type: 'data',
+                        name,
+                        absPath: path.join(this._cfg.src_dir, name),
+                    });
+                }
+            }
+        }
+
+        for (const page of previous) {
+            if (this._routes.has(page)) continue;
+
+            logger.debug(`page ${page} is no longer generated, removing it`);
+            ctx.removeNode(page);
+            fs.rmSync(path.join(this._cfg.out_dir, page), { force: true });
         }
+
+        logger.debug(
+            `generated ${this._routes.size} pages from ${this._routeFiles.size} routes`,
+        );
+        return Array.from(this._routes.keys());
+    }
+
+    /**
+     * Get the markdown files the route collections read as data, e.g. for
+     * the markdown plugin not to render them as pages.
+     * @returns the markdown files, relative to the src dir
+     */
+    async getRouteDataFiles() {
+        const files = new Set<string>();
+        for (const file of this._routeFiles) {
+            const source = this._readRouteSource(file);
+            if (!source) continue;
+
+            for (const absMd of await getCollectionFiles(this._cfg, source))
+                files.add(path.relative(this._cfg.src_dir, absMd));
+        }
+        return Array.from(files).sort();
+    }
+
+    /**
+     * Read the data source a route file declares.
+     * @param file the route file, relative to the src dir
+     * @returns the data source, if any
+     */
+    private _readRouteSource(file: string) {
+        const absRoute = path.join(this._cfg.src_dir, file);
+        const doc = parse(
+            fs.readFileSync(absRoute, 'utf8'),
+        ) as unknown as Element;
+        return takeMeta(doc, ROUTE_META_NAME)?.trim();
+    }
+
+    /**
+     * Get the generated pages, e.g. to build them in another page
+     * processor.
+     * @returns generated page → its route
+     */
+    getRoutes() {
+        return new Map(this._routes);
+    }
+
+    /**
+     * Add the pages generated by another page processor.
+     * @param routes generated page → its route
+     */
+    addRoutes(routes: Map<string, PageRoute>) {
+        routes.forEach((route, page) => this._routes.set(page, route));
+    }
+
+    /**
+     * Get the pages generated from a route file.
+     * @param file the relative path of the route file
+     * @returns the generated pages, undefined if the page is not a route
+     */
+    getRoutePages(file: string) {
+        if (!isRouteFile(file)) return undefined;
+        return Array.from(this._routes.entries())
+            .filter(([, route]) => route.file === file)
+            .map(([page]) => page);
     }
 
     override async getAssets<T>(
@@ -84,7 +306,47 @@ export class PageProcessor extends AssetProcessor {
             cssUris: Array.from(this.externalCssUri),
             jsUris: Array.from(this.externalJsUri),
             imgUris: Array.from(this.externalImgUri),
-        } as T;
+            moduleUris: Array.from(this.moduleJsUri),
+            jsGroups: Object.fromEntries(this.jsGroups),
+        } satisfies PageAssets as T;
+    }
+
+    /**
+     * Merge the asset uris discovered by another page processor, e.g.
+     * one analyzing pages in a worker thread.
+     * @param assets the discovered asset uris
+     */
+    addAssets(assets: PageAssets) {
+        assets.cssUris.forEach((uri) => this.externalCssUri.add(uri));
+        assets.jsUris.forEach((uri) => this.externalJsUri.add(uri));
+        assets.imgUris.forEach((uri) => this.externalImgUri.add(uri));
+        assets.moduleUris.forEach((uri) => this.moduleJsUri.add(uri));
+        Object.entries(assets.jsGroups).forEach(([uri, group]) =>
+            this._addJsGroup(uri, group),
+        );
+    }
+
+    /**
+     * Get the group of the scripts of each bundled js uri.
+     * @returns bundled js uri → the group of its scripts
+     */
+    getScriptGroups() {
+        return new Map(this.jsGroups);
+    }
+
+    /**
+     * Record the group of a bundled js uri. A uri loaded with another
+     * group by another page keeps its first group.
+     * @param uri the bundled js uri
+     * @param group the group of the script
+     */
+    private _addJsGroup(uri: string, group: ScriptGroup) {
+        const known = this.jsGroups.get(uri);
+        if (known === undefined) this.jsGroups.set(uri, group);
+        else if (known !== group)
+            logger.warn(
+                `${terminalPretty.underline(uri)} is loaded as ${known} and as ${group}, it is bundled as ${known}`,
+            );
     }
 
     override patchNode(
@@ -92,6 +354,12 @@ export class PageProcessor extends AssetProcessor {
         absPath: string,
         _eventType: EmitterEventType,
     ): Promise<AssetNode> {
+        const name = this.formatNodeName(absPath);
+        if (isRouteFile(name)) {
+            if (_eventType === 'unlink') this._routeFiles.delete(name);
+            else this._routeFiles.add(name);
+        }
+
         return Promise.resolve({
             type: this._nodeType,
             name: this.formatNodeName(absPath),
@@ -117,12 +385,18 @@ export class PageProcessor extends AssetProcessor {
             )) || bundle;
 
         // 2. Check if the bundle is already cached
-        const hash = await fingerprint(bundle);
+        const hash = await this._buildCache.key('html', bundle);
         if (_lruCache.has(hash)) {
             logger.debug(`html found in cache → ${hash}`);
             return _lruCache.get(hash) as string;
         }
 
+        const cached = this._buildCache.get(hash);
+        if (cached !== undefined) {
+            _lruCache.set(hash, cached);
+            return cached;
+        }
+
         // 2. Minify the bundle
         bundle = await limit(() =>
             minifyHtml(bundle, {
@@ -142,6 +416,7 @@ export class PageProcessor extends AssetProcessor {
 
         // 4. Cache the bundle
         _lruCache.set(hash, bundle);
+        this._buildCache.set(hash, bundle);
 
         return bundle;
     }
@@ -156,20 +431,89 @@ export class PageProcessor extends AssetProcessor {
 
         ensureDir(path.dirname(dst));
         fs.writeFileSync(dst, bundle, 'utf8');
+
+        await this._pluginManager.callHook(
+            'onPageWritten',
+            this._cfg,
+            relPath,
+            bundle,
+        );
     }
 
     override async build(
-        ctx: AssetProcessorContext & TemplatesAssetContext,
+        ctx: AssetProcessorContext & TemplatesAssetContext & ChunksAssetContext,
         relPath: string,
     ) {
         if (relPath === undefined || relPath.length == 0) return '';
 
-        // 1. Read the HTML file
+        await this.analyze(ctx, relPath);
+        return this.render(ctx, relPath);
+    }
+
+    /**
+     * Analyze the HTML page: expand the templates and record the
+     * dependencies of the page in the processor tree. The document is
+     * kept until the page is rendered.
+     * @param ctx the context for the asset processor
+     * @param relPath the relative path of the page
+     */
+    async analyze(
+        ctx: AssetProcessorContext & TemplatesAssetContext,
+        relPath: string,
+    ) {
+        if (relPath === undefined || relPath.length == 0) return;
+
+        // 1. Read the HTML file, the generated pages read their route
+        const route = this._routes.get(relPath);
         const absPage = path.join(this._cfg.src_dir, relPath);
-        const raw = fs.readFileSync(absPage, 'utf8');
+        const absSource = path.join(this._cfg.src_dir, route?.file ?? relPath);
+        if (!fs.existsSync(absSource)) {
+            logger.debug(`page ${relPath} no longer exists, skipping`);
+            return;
+        }
+        let raw = fs.readFileSync(absSource, 'utf8');
+
+        // drop the previously recorded dependencies of the page,
+        // they are recorded again while walking the page
+        for (const dep of ctx.getDependencies(relPath))
+            ctx.removeDependency(relPath, dep);
+
+        // a generated page is rendered with its record, the other pages
+        // only render the tags reading the site data, the rest of their
+        // tags may be client-side templates
+        const site = await this._getSiteData(ctx);
+        const readsData = this._addDataDependencies(ctx, relPath, raw, site);
+        route?.dependencies.forEach((dep) => ctx.addDependency(relPath, dep));
+        if (route) {
+            raw = renderTemplate(
+                raw,
+                {
+                    site: { data: site.data },
+                    ...route.params,
+                    record: route.record,
+                },
+                { file: absSource, partial: true },
+            );
+        } else if (readsData) {
+            raw = renderTemplateTags(
+                raw,
+                'site.data',
+                { site: { data: site.data } },
+                { file: absSource },
+            );
+        }
+
+        // Parse the HTML page as AST, the locations point the template
+        // errors at their include
+        let doc = parse(raw, {
+            sourceCodeLocationInfo: true,
+        }) as unknown as DefaultTreeAdapterMap['element'];
+        if (route) takeMeta(doc, ROUTE_META_NAME);
+
+        // wrap the page in the layout it declares
+        const layout = takeLayout(doc);
+        if (layout) doc = await this._applyLayout(ctx, doc, relPath, layout);
 
-        // Parse the HTML page as AST
-        let doc = parse(raw) as unknown as DefaultTreeAdapterMap['element'];
         doc =
             (await this._pluginManager.callHook(
                 'onPage',
@@ -179,10 +523,43 @@ export class PageProcessor extends AssetProcessor {
             )) || doc;
 
         // 2. Build the HTML page
-        await this._buildFragment(ctx, doc, relPath);
+        this._scriptPlans.set(relPath, []);
+        this._sources.set(relPath, raw);
+        try {
+            await this._buildFragment(ctx, doc, relPath);
+        } finally {
+            this._sources.delete(relPath);
+        }
+
+        this._docs.set(relPath, doc);
+    }
+
+    /**
+     * Render an analyzed HTML page: inject the bundles, minify and
+     * write it to the output directory.
+     * @param ctx the context for the asset processor
+     * @param relPath the relative path of the page
+     * @param write whether to minify & write the page, the pages whose
+     * critical css is inlined are written by `writeWithCriticalCss`
+     * @returns the rendered page
+     */
+    async render(ctx: ChunksAssetContext, relPath: string, write = true) {
+        const doc = this._docs.get(relPath);
+        if (!doc) {
+            logger.debug(`page ${relPath} is not analyzed, skipping render`);
+            return '';
+        }
+        this._docs.delete(relPath);
 
         // 3. Format the HTML page
-        const formattedHtml = await this._formatUri(doc, relPath);
+        const formattedHtml = await this._formatUri(
+            doc,
+            relPath,
+            ctx.getChunks(relPath),
+            this._scriptPlans.get(relPath) ?? [],
+        );
+        this._scriptPlans.delete(relPath);
+        if (!write) return formattedHtml;
 
         const bundle = await this.minify(formattedHtml, () =>
             Promise.resolve([]),
@@ -191,6 +568,196 @@ export class PageProcessor extends AssetProcessor {
         return bundle;
     }
 
+    /**
+     * Inline the critical css of a rendered page in its head and load
+     * its stylesheets asynchronously, with a noscript fallback, then
+     * minify and write the page.
+     * @param ctx the context for the asset processor
+     * @param relPath the relative path of the page
+     * @param html the rendered page, see `render`
+     * @param extract extracts the critical css from the above-the-fold html
+     * @throws {HTMLError} if the page has no head
+     */
+    async writeWithCriticalCss(
+        ctx: ChunksAssetContext,
+        relPath: string,
+        html: string,
+        extract: (html: string) => Promise<string>,
+    ) {
+        const critical = await extract(this._formatAboveTheFold(html));
+        if (critical.length === 0)
+            logger.debug(`no critical css found for ${relPath}, skipping`);
+        else html = this._inlineCriticalCss(ctx, relPath, html, critical);
+
+        const bundle = await this.minify(html, () => Promise.resolve([]));
+        await this.write(bundle, relPath);
+    }
+
+    /**
+     * Inline the critical css of a page in its head, in place of its
+     * first stylesheet, and load its stylesheets asynchronously.
+     * @param ctx the context for the asset processor
+     * @param relPath the relative path of the page
+     * @param html the page
+     * @param critical the critical css of the page
+     * @returns the page with its critical css
+     * @throws {HTMLError} if the page has no head
+     */
+    private _inlineCriticalCss(
+        ctx: ChunksAssetContext,
+        relPath: string,
+        html: string,
+        critical: string,
+    ) {
+        const doc = parse(html) as unknown as Element;
+        const htmlNode = doc.childNodes.find(
+            (n: any) => n.tagName === 'html',
+        ) as Element | undefined;
+        const head = htmlNode?.childNodes.find(
+            (n: any) => n.tagName === 'head',
+        ) as Element | undefined;
+        if (!head) throw new HTMLError(`head node not found in ${relPath}`);
+
+        const hrefs = new Set(
+            ctx.getChunks(relPath).css.map((uri) => assetUrl(this._cfg, uri)),
+        );
+        let inlined = false;
+        head.childNodes = head.childNodes.flatMap((n) => {
+            const node = n as Element;
+            const href = node.attrs?.find((a) => a.name === 'href')?.value;
+            if (node.tagName !== 'link' || !href || !hrefs.has(href)) return n;
+
+            const style = inlined ? '' : `<style>${critical}</style>`;
+            inlined = true;
+            return parseFragment(
+                `${style}<link rel="preload" href="${href}" as="style" onload="this.onload=null;this.rel='stylesheet'">` +
+                    `<noscript><link rel="stylesheet" href="${href}"></noscript>`,
+            ).childNodes;
+        });
+
+        if (!inlined) {
+            logger.debug(`no stylesheet found in ${relPath}, skipping`);
+            return html;
+        }
+
+        logger.debug(`inlined critical css in ${relPath}`);
+        return serialize(doc);
+    }
+
+    /**
+     * Format the above-the-fold html of a page: the head and the leading
+     * elements of the body.
+     * @param html the html page
+     * @returns the above-the-fold html
+     */
+    private _formatAboveTheFold(html: string) {
+        const doc = parse(html) as unknown as Element;
+
+        let budget = CRITICAL_FOLD_ELEMENTS;
+        const prune = (node: Element) => {
+            node.childNodes = node.childNodes.filter((n) => {
+                if (budget <= 0) return false;
+                const child = n as Element;
+                if (child.tagName === undefined) return true;
+
+                budget--;
+                if (child.childNodes) prune(child);
+                return true;
+            });
+        };
+
+        const htmlNode = doc.childNodes.find(
+            (n: any) => n.tagName === 'html',
+        ) as Element | undefined;
+        const body = htmlNode?.childNodes.find(
+            (n: any) => n.tagName === 'body',
+        ) as Element | undefined;
+        if (body) prune(body);
+
+        return serialize(doc);
+    }
+
+    /**
+     * Wrap the page in its layout, `templates/layouts/<name>.html`, and
+     * record the layout as a dependency of the page.
+     * @param ctx the context for the asset processor
+     * @param doc the page document
+     * @param relPage the relative page path
+     * @param layout the name of the layout
+     * @returns the document of the wrapped page
+     * @throws {TemplateError} if the layout is missing or malformed
+     */
+    private async _applyLayout(
+        ctx: AssetProcessorContext & TemplatesAssetContext,
+        doc: Element,
+        relPage: string,
+        layout: string,
+    ) {
+        const name = `${LAYOUTS_DIR_NAME}/${layout}`.split('/').join('-');
+        const template = (
+            await ctx.getTemplates<Map<string, string>>('external', () =>
+                Promise.resolve([]),
+            )
+        ).get(name);
+
+        if (template === undefined) {
+            throw new TemplateError(
+                `layout ${layout} of ${relPage} not found → ${path.join(this._cfg.templates?.dir ?? 'templates', LAYOUTS_DIR_NAME, `${layout}.html`)}`,
+            );
+        }
+
+        ctx.addDependency(relPage, name);
+        const site = await this._getSiteData(ctx);
+        this._addDataDependencies(ctx, relPage, template, site);
+
+        return applyLayout(doc, template, {
+            file: ctx.getNodeByName(name)?.absPath ?? `layout ${layout}`,
+            data: { site: { data: site.data } },
+        });
+    }
+
+    /**
+     * Get the data files of the site.
+     * @param ctx the context for the asset processor
+     * @returns the site data
+     */
+    private async _getSiteData(ctx: TemplatesAssetContext) {
+        return await ctx.getData<SiteData>('external', () =>
+            Promise.resolve([]),
+        );
+    }
+
+    /**
+     * Record the data files a page or template source reads as
+     * dependencies of the page.
+     * @param ctx the context for the asset processor
+     * @param relPage the relative page path
+     * @param source the page or template source
+     * @param site the site data
+     * @returns whether the source reads the site data
+     */
+    private _addDataDependencies(
+        ctx: AssetProcessorContext,
+        relPage: string,
+        source: string,
+        site: SiteData,
+    ) {
+        const refs = getDataRefs(source);
+        for (const ref of refs) {
+            for (const [key, name] of Object.entries(site.files)) {
+                // a key reads the files below it, e.g. `pricing` reads
+                // `data/pricing/tiers.json`
+                if (
+                    ref === '' ||
+                    `${ref}.`.startsWith(`${key}.`) ||
+                    `${key}.`.startsWith(`${ref}.`)
+                )
+                    ctx.addDependency(relPage, `data:${name}`);
+            }
+        }
+        return refs.length > 0;
+    }
+
     async _buildFragment(
         ctx: AssetProcessorContext & TemplatesAssetContext,
         node: Element,
@@ -339,7 +906,10 @@ export class PageProcessor extends AssetProcessor {
                 cfg: this._cfg,
                 checkLocalUri: false,
             });
-            if (isValid) this.externalCssUri.add(value);
+            if (isValid) {
+                this.externalCssUri.add(value);
+                ctx.addDependency(relPage, `css:${value}`);
+            }
         }
         {
             const { isValid, value } = isCssValidForProcessing({
@@ -366,16 +936,34 @@ export class PageProcessor extends AssetProcessor {
     async _buildJsFragment(
         ctx: AssetProcessorContext,
         node: Element,
-        _parent: Element | undefined,
+        parent: Element | undefined,
         relPage: string,
     ) {
+        const script: PageScript = {
+            node,
+            parent,
+            group: getScriptGroup(node),
+        };
+        this._scriptPlans.get(relPage)?.push(script);
+
+        {
+            const { isValid, value } = isJsValidForProcessing({
+                node,
+                cfg: this._cfg,
+            });
+            if (isValid) script.src = value;
+        }
         {
             const { isValid, value } = isJsValidForProcessing({
                 node,
                 cfg: this._cfg,
                 checkLocalUri: false,
             });
-            if (isValid) this.externalJsUri.add(value);
+            if (isValid) {
+                this.externalJsUri.add(value);
+                this._addJsGroup(value, script.group);
+                ctx.addDependency(relPage, `js:${value}`);
+            }
         }
         {
             const { isValid, value } = isJsValidForProcessing({
@@ -386,8 +974,12 @@ export class PageProcessor extends AssetProcessor {
             if (isValid) {
                 const absFile = path.resolve(this._cfg.src_dir, value);
                 if (fs.existsSync(absFile)) {
-                    const jsNode = `js:${path.relative(this._cfg.src_dir, absFile)}`;
-                    ctx.addDependency(relPage, jsNode);
+                    const relFile = path.relative(this._cfg.src_dir, absFile);
+                    ctx.addDependency(relPage, `js:${relFile}`);
+                    this._addJsGroup(relFile, script.group);
+
+                    if (script.group.startsWith('module-'))
+                        this.moduleJsUri.add(relFile);
                 }
             }
         }
@@ -427,33 +1019,61 @@ export class PageProcessor extends AssetProcessor {
                 return;
             }
 
-            const attrStr =
-                (node.attrs || [])
-                    .map((a: any) => `${a.name}="${a.value}"`)
-                    .join(' ') || '';
-            const params = parseAttrs(attrStr);
-
-            // serialize any innerHTML
-            // create empty div and append child nodes
-            const div = parseFragment('<div></div>');
-            div.childNodes = node.childNodes || [];
+            const params = Object.fromEntries(
+                (node.attrs || []).map((a) => [a.name, a.value]),
+            );
 
-            const innerHTML = serialize(div) || '';
+            // the children fill the slots of the template
+            const slots = collectSlots(node);
 
-            // perform {{children}} and {{param}} substitution
-            let inst = template.replace(MATCH_CHILDREN_REGEX, innerHTML);
+            // render the template with the params & the slots
+            const loc = node.sourceCodeLocation;
+            const source = this._sources.get(relPage);
+            const site = await this._getSiteData(ctx);
+            this._addDataDependencies(ctx, relPage, template, site);
 
-            for (const [k, v] of Object.entries(params)) {
-                const rendered = preserveHtml(v);
-                inst = inst.replace(
-                    new RegExp(`\\{\\{${k}\\}\\}`, 'g'),
-                    rendered,
-                );
-            }
+            const inst = renderTemplate(
+                template,
+                {
+                    site: { data: site.data },
+                    ...params,
+                    children: new SafeHtml(slots.default ?? ''),
+                },
+                {
+                    file:
+                        ctx.getNodeByName(templateTagName)?.absPath ??
+                        `template ${templateTagName}`,
+                    slots,
+                    site:
+                        loc && source !== undefined
+                            ? {
+                                  file: path.join(
+                                      this._cfg.src_dir,
+                                      this._routes.get(relPage)?.file ??
+                                          relPage,
+                                  ),
+                                  source,
+                                  line: loc.startLine,
+                                  column: loc.startCol,
+                              }
+                            : undefined,
+                },
+            );
 
             // parse substituted HTML into a fragment
             const fragment = parseFragment(inst);
 
+            // the attributes which aren't params go onto the root element
+            const used = getTemplateParams(template, templateTagName);
+            const forwarded = (node.attrs || []).filter(
+                (a) => !used.has(a.name),
+            );
+            if (!forwardAttrs(fragment, forwarded)) {
+                logger.warn(
+                    `template ${templateTagName} has no single root element, dropping ${forwarded.map((a) => a.name).join(', ')} of ${relPage}`,
+                );
+            }
+
             // replace the <include-*> node in parent's childNodes
             if (parent && parent.childNodes) {
                 parent.childNodes = parent.childNodes.flatMap((c) =>
@@ -470,8 +1090,15 @@ export class PageProcessor extends AssetProcessor {
      * processing and adding the CSS and JS bundles.
      * @param doc the HTML document to process
      * @param rel the relative path of the HTML page
+     * @param chunks the bundles the page references
+     * @param scripts the ordered scripts of the page
      */
-    private async _formatUri(doc: Element, rel: string) {
+    private async _formatUri(
+        doc: Element,
+        rel: string,
+        chunks: { css: string[]; js: ScriptChunk[] },
+        scripts: PageScript[],
+    ) {
         // 1. Find head and body nodes
         let htmlNode = doc.childNodes.find((n: any) => n.tagName === 'html');
 
@@ -515,37 +1142,81 @@ export class PageProcessor extends AssetProcessor {
         head = head as Element;
         body = body as Element;
 
-        // remove the style and script tags from the body
-        logger.debug(`total child nodes in head → ${head.childNodes.length}`);
-        head.childNodes = head.childNodes.filter(removeNodes);
-        logger.debug(
-            `total child nodes in head after filtering → ${head.childNodes.length}`,
+        // the bundles of a group take the place of the first bundled
+        // script of the group
+        const anchors = new Map<ScriptGroup, PageScript>();
+        for (const script of scripts)
+            if (script.src !== undefined && !anchors.has(script.group))
+                anchors.set(script.group, script);
+
+        const anchorNodes = new Set(
+            Array.from(anchors.values(), (script) => script.node),
         );
+        const keep = (n: DefaultTreeAdapterMap['childNode']) =>
+            anchorNodes.has(n as Element) || removeNodes(n);
 
-        // remove the style and script tags from the body
-        logger.debug(`total child nodes in body → ${body.childNodes.length}`);
-        body.childNodes = body.childNodes.filter(removeNodes);
+        // remove the bundled style and script tags, wherever they are
+        // nested, e.g. in a <div> or a <noscript>
+        const removed: Element[] = [];
+        await walkHtmlTree(doc, {
+            handlers: [
+                {
+                    match: /^(link|script)$/,
+                    fns: [
+                        (node) => {
+                            if (!keep(node)) removed.push(node);
+                        },
+                    ],
+                },
+            ],
+        });
+        for (const node of removed) {
+            const parent = node.parentNode as Element | null;
+            if (parent)
+                parent.childNodes = parent.childNodes.filter((c) => c !== node);
+        }
         logger.debug(
-            `total child nodes in body after filtering → ${body.childNodes.length}`,
+            `bundled style and script tags removed → ${removed.length}`,
         );
 
         // Push the new style and script tags to the head and body
-        head.childNodes.push(
-            parseFragment(
-                `<link rel="stylesheet" href="css/${CSS_BUNDLE_NAME}">`,
-            ).childNodes[0] ??
-                (() => {
-                    throw new HTMLError('failed to parse link fragment');
-                })(),
-        );
+        for (const uri of chunks.css) {
+            head.childNodes.push(
+                parseFragment(
+                    `<link rel="stylesheet" href="${assetUrl(this._cfg, uri)}">`,
+                ).childNodes[0] ??
+                    (() => {
+                        throw new HTMLError('failed to parse link fragment');
+                    })(),
+            );
+        }
 
-        body.childNodes.push(
-            parseFragment(`<script src="js/${JS_BUNDLE_NAME}" defer></script>`)
-                .childNodes[0] ??
+        this._warnKeptScripts(rel, scripts);
+        for (const { uri, group } of chunks.js) {
+            const scriptNode =
+                parseFragment(
+                    `<script src="${assetUrl(this._cfg, uri)}"${this._formatScriptAttrs(group)}></script>`,
+                ).childNodes[0] ??
                 (() => {
                     throw new HTMLError('failed to parse script fragment');
-                })(),
-        );
+                })();
+
+            // the bundles of a group the page doesn't load go last
+            const anchor = anchors.get(group);
+            const parent = anchor?.parent ?? body;
+            const index = anchor ? parent.childNodes.indexOf(anchor.node) : -1;
+            scriptNode.parentNode = parent;
+            parent.childNodes.splice(
+                index < 0 ? parent.childNodes.length : index,
+                0,
+                scriptNode,
+            );
+        }
+
+        for (const { node, parent } of anchors.values()) {
+            if (parent)
+                parent.childNodes = parent.childNodes.filter((c) => c !== node);
+        }
 
         // Serialize back to HTML string
         let outHtml = serialize(doc);
@@ -556,4 +1227,57 @@ export class PageProcessor extends AssetProcessor {
 
         return outHtml;
     }
+
+    /**
+     * Format the attributes of the bundle of a script group, so the
+     * bundle keeps the semantics of the scripts merged into it.
+     * @param group the script group
+     * @returns the formatted attributes
+     */
+    private _formatScriptAttrs(group: ScriptGroup) {
+        const [kind, timing] = group.split('-');
+
+        const attrs: string[] = [];
+        if (kind === 'module') attrs.push('type="module"');
+        else if (kind === 'nomodule') attrs.push('nomodule');
+
+        // module scripts are deferred already
+        if (timing === 'async') attrs.push('async');
+        else if (timing === 'defer' && kind !== 'module') attrs.push('defer');
+
+        return attrs.map((a) => ` ${a}`).join('');
+    }
+
+    /**
+     * Warn about the scripts kept in place between the bundled sync
+     * scripts of a group, as they now run after all of them.
+     * @param rel the relative path of the HTML page
+     * @param scripts the ordered scripts of the page
+     */
+    private _warnKeptScripts(rel: string, scripts: PageScript[]) {
+        const groups = new Set(
+            scripts
+                .filter((s) => s.src !== undefined && s.group.endsWith('-sync'))
+                .map((s) => s.group),
+        );
+
+        for (const group of groups) {
+            const bundled = scripts.filter(
+                (s) => s.src !== undefined && s.group === group,
+            );
+            const last = bundled[bundled.length - 1] as PageScript;
+            const kept = scripts
+                .slice(
+                    scripts.indexOf(bundled[0] as PageScript),
+                    scripts.indexOf(last),
+                )
+                .filter(
+                    (s) => s.src === undefined && s.group.endsWith('-sync'),
+                );
+            if (kept.length > 0)
+                logger.warn(
+                    `${kept.length} script(s) kept in place in ${terminalPretty.underline(rel)} now run after ${last.src}, which is merged into the ${group} bundle`,
+                );
+        }
+    }
 }
@@ -2,11 +2,21 @@ import path from 'path';
 import { type MinimalifyConfig } from '@/config/struct.js';
 import { type ProcessorTree } from '../processor-tree.js';
 import { type HTTPCache } from '@/cache-manager/http-cache.js';
+import { type BuildCache } from '@/cache-manager/build-cache.js';
 import { type MinimalifyPluginManager } from '@/plugins/manager.js';
 import { type EmitterEventType } from '@/utils/types.js';
+import { appendPath } from '@/utils/other.js';
 
 // Supported node types for the processor tree
-export const supportedNodeTypes = ['css', 'js', 'tmpl', 'page', 'img'] as const;
+export const supportedNodeTypes = [
+    'css',
+    'js',
+    'tmpl',
+    'page',
+    'img',
+    'font',
+    'data',
+] as const;
 export type NodeType = (typeof supportedNodeTypes)[number];
 
 export interface AssetNode {
@@ -15,6 +25,25 @@ export interface AssetNode {
     absPath: string;
 }
 
+/**
+ * A single source of a bundle, either a local file or a remote uri.
+ */
+export interface BundleSource {
+    uri: string;
+    content: string;
+
+    // the source map of a content bundled from other files
+    map?: string;
+}
+
+/**
+ * The bundled code and its optional source map.
+ */
+export interface BundleResult {
+    code: string;
+    map?: string;
+}
+
 /**
  * Abstract class for asset processors.
  * It defines the interface for processing assets of a specific type.
@@ -24,15 +53,18 @@ export abstract class AssetProcessor {
     abstract _nodeType: NodeType;
     protected _cfg: MinimalifyConfig;
     protected _cache: HTTPCache;
+    protected _buildCache: BuildCache;
     protected _pluginManager: MinimalifyPluginManager;
 
     constructor(
         config: MinimalifyConfig,
         cache: HTTPCache,
         plugins: MinimalifyPluginManager,
+        buildCache: BuildCache,
     ) {
         this._pluginManager = plugins;
         this._cache = cache;
+        this._buildCache = buildCache;
         this._cfg = config;
     }
     /**
@@ -65,12 +97,33 @@ export abstract class AssetProcessor {
      */
     abstract minify(bundle: string, getAllPages: GetPages): Promise<string>;
 
+    /**
+     * Bundle the sources into a single, minified bundle.
+     * @param sources the sources to bundle, in order
+     * @param getAllPages function to get all pages
+     * @param _name the name of the bundle, relative to its out dir
+     * @returns the bundle and its source map, if any
+     */
+    async bundle(
+        sources: BundleSource[],
+        getAllPages: GetPages,
+        _name?: string,
+    ): Promise<BundleResult> {
+        return {
+            code: await this.minify(
+                sources.map(({ content }) => content).join('\n'),
+                getAllPages,
+            ),
+        };
+    }
+
     /**
      * Write the bundle to the output directory.
      * @param bundle the bundle to write
      * @param path the path to write the bundle to
+     * @param map the source map of the bundle
      */
-    abstract write(bundle: string, path?: string): Promise<void>;
+    abstract write(bundle: string, path?: string, map?: string): Promise<void>;
 
     /**
      * Build the asset node.
@@ -79,12 +132,24 @@ export abstract class AssetProcessor {
      * @returns the asset node
      */
     async build(
-        _ctx: AssetProcessorContext & TemplatesAssetContext,
+        _ctx: AssetProcessorContext &
+            TemplatesAssetContext &
+            ChunksAssetContext,
         _relPath: string,
     ): Promise<string> {
         return '';
     }
 
+    /**
+     * Format the name of a source, relative to the src dir.
+     * @param uri the absolute path or remote uri of the source
+     * @returns the source name
+     */
+    protected formatSourceName(uri: string): string {
+        if (/^https?:\/\//.test(uri)) return uri;
+        return path.relative(this._cfg.src_dir, uri).split(path.sep).join('/');
+    }
+
     /**
      * Format the node name for the asset processor.
      * @param absPath the absolute path of the asset
@@ -95,9 +160,33 @@ export abstract class AssetProcessor {
             return path.relative(this._cfg.src_dir, absPath);
         }
 
-        // for templates, we need to use the template name
-        // take the basename removing the extension
-        return path.basename(absPath).replace(path.extname(absPath), '');
+        // for templates, the name is the path in the template dir or the
+        // shared uri without the extension, e.g. ui/button.html → ui-button
+        const sharedUri = this._cfg.templates?.shared_uri?.find((uri) =>
+            absPath.startsWith(appendPath(uri, '')),
+        );
+        let rel = sharedUri
+            ? decodeURIComponent(
+                  absPath.slice(appendPath(sharedUri, '').length),
+              )
+            : path
+                  .relative(
+                      path.join(
+                          this._cfg.src_dir,
+                          this._cfg.templates?.dir ?? 'templates',
+                      ),
+                      absPath,
+                  )
+                  .split(path.sep)
+                  .join('/');
+
+        // templates out of the template dir keep their basename
+        if (rel.startsWith('..')) rel = path.basename(absPath);
+
+        return rel
+            .replace(/\.[^./]+$/, '')
+            .split('/')
+            .join('-');
     }
 }
 
@@ -116,6 +205,12 @@ export interface AssetProcessorContext {
      */
     addNode: (type: AssetNode) => void;
 
+    /**
+     * Remove a node & every dependency from or to it.
+     * @param name the name of the node
+     */
+    removeNode: (name: string) => void;
+
     /**
      * Get a node by its name.
      * @param name the name of the node
@@ -137,6 +232,13 @@ export interface AssetProcessorContext {
      */
     addDependency: (from: string, to: string) => void;
 
+    /**
+     * Remove a dependency between two nodes.
+     * @param from the node that depends on another node
+     * @param to the node that is depended on
+     */
+    removeDependency: (from: string, to: string) => void;
+
     /**
      * Get the dependencies of a node.
      * @param name the name of the node
@@ -154,6 +256,36 @@ export interface AssetProcessorContext {
 
 export interface TemplatesAssetContext {
     getTemplates: AssetProcessor['getAssets'];
+
+    // the data files, read by the templates & the pages as `site.data`
+    getData: AssetProcessor['getAssets'];
+}
+
+/**
+ * The group of a script, by its kind & when it runs, e.g. `module-defer`
+ * or `classic-sync`. Only the scripts of a group are bundled together.
+ */
+export type ScriptGroup =
+    `${'module' | 'nomodule' | 'classic'}-${'sync' | 'defer' | 'async'}`;
+
+/**
+ * A js bundle a page references & the group of its scripts.
+ */
+export interface ScriptChunk {
+    uri: string;
+    group: ScriptGroup;
+}
+
+/**
+ * Context for resolving the bundles a page has to reference.
+ */
+export interface ChunksAssetContext {
+    /**
+     * Get the css & js bundle uris (relative to the out dir) for a page.
+     * @param relPage the relative path of the page
+     * @returns the ordered bundle uris
+     */
+    getChunks: (relPage: string) => { css: string[]; js: ScriptChunk[] };
 }
 
 export type GetPages = ProcessorTree['getAllPages'];
@@ -8,16 +8,29 @@ import path from 'path';
 import MarkdownIt from 'markdown-it';
 import fs from 'fs';
 import { logger } from '@/utils/logger.js';
-import { type DefaultTreeAdapterMap, parseFragment, serialize } from 'parse5';
 import {
-    MATCH_CHILDREN_REGEX,
+    type DefaultTreeAdapterMap,
+    parse,
+    parseFragment,
+    serialize,
+} from 'parse5';
+import {
+    MATCH_HTML_DOCUMENT_REGEX,
     MATCH_TEMPLATE_REGEX,
 } from '@/utils/constants/regex.js';
 import { walkHtmlTree } from '@/utils/html-walk.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
-import { preserveHtml } from '@/utils/html.js';
-import { appendPath, parseAttrs } from '@/utils/other.js';
+import { appendPath } from '@/utils/other.js';
+import { TemplateError } from '@/error/template-error.js';
+import { collectSlots, forwardAttrs } from '@/utils/html.js';
+import {
+    getTemplateParams,
+    parseTemplate,
+    renderTemplate,
+    SafeHtml,
+} from '@/utils/template.js';
 import { type EmitterEventType } from '@/utils/types.js';
+import { parseFrontMatter } from '@/utils/data.js';
 
 type Element = DefaultTreeAdapterMap['element'];
 type ElementNode = DefaultTreeAdapterMap['node'];
@@ -72,6 +85,7 @@ export class TemplateProcessor extends AssetProcessor {
                 name: this.formatNodeName(absPath),
                 absPath,
             } as AssetNode;
+            this._checkCollision(node);
             ctx.addNode(node);
 
             // build the template
@@ -128,6 +142,7 @@ export class TemplateProcessor extends AssetProcessor {
             name: this.formatNodeName(absPath),
             absPath,
         };
+        this._checkCollision(node);
         ctx.addNode(node);
         this._tmplNameToAbsPath.set(node.name, absPath);
         await this._parseAndIndex(ctx, node, true);
@@ -135,6 +150,21 @@ export class TemplateProcessor extends AssetProcessor {
         return node;
     }
 
+    /**
+     * Check that no other template has the name of a template, e.g.
+     * `ui/button.html` & `ui-button.html`, or a local & a shared template.
+     * @param node the template node
+     * @throws {TemplateError} if the name is taken by another template
+     */
+    private _checkCollision(node: AssetNode) {
+        const other = this._tmplNameToAbsPath.get(node.name);
+        if (other === undefined || other === node.absPath) return;
+
+        throw new TemplateError(
+            `template ${node.name} is defined twice → ${this.formatSourceName(other)} and ${this.formatSourceName(node.absPath)}, rename one of them`,
+        );
+    }
+
     /**
      * Expand all nodes in the graph.
      * @param ctx the context for the asset processor
@@ -182,7 +212,15 @@ export class TemplateProcessor extends AssetProcessor {
             return;
         }
 
-        const node = parseFragment(template) as Element;
+        // the locations point the template errors at their include, the
+        // layouts keep their document skeleton
+        const node = (MATCH_HTML_DOCUMENT_REGEX.test(template)
+            ? parse
+            : parseFragment)(template, {
+            sourceCodeLocationInfo: true,
+        }) as unknown as Element;
+        const file = this._tmplNameToAbsPath.get(name) ?? name;
+        const source = template;
         await walkHtmlTree(node, {
             defaultDescend: true,
             handlers: [
@@ -209,36 +247,62 @@ export class TemplateProcessor extends AssetProcessor {
                                 return;
                             }
 
-                            const attrStr =
-                                (node.attrs || [])
-                                    .map((a: any) => `${a.name}="${a.value}"`)
-                                    .join(' ') || '';
-                            const params = parseAttrs(attrStr);
+                            const params = Object.fromEntries(
+                                (node.attrs || []).map((a) => [
+                                    a.name,
+                                    a.value,
+                                ]),
+                            );
 
-                            // serialize any innerHTML
-                            // create empty div and append child nodes
-                            const div = parseFragment('<div></div>');
-                            div.childNodes = node.childNodes || [];
+                            // the children fill the slots of the template
+                            const slots = collectSlots(node);
+
+                            // render the template with the params, the
+                            // blocks using the params of the page are kept
+                            const inst = renderTemplate(
+                                template,
+                                {
+                                    ...params,
+                                    children: new SafeHtml(slots.default ?? ''),
+                                },
+                                {
+                                    file:
+                                        this._tmplNameToAbsPath.get(
+                                            templateTagName,
+                                        ) ?? templateTagName,
+                                    partial: true,
+                                    slots,
+                                    site: node.sourceCodeLocation
+                                        ? {
+                                              file,
+                                              source,
+                                              line: node.sourceCodeLocation
+                                                  .startLine,
+                                              column: node.sourceCodeLocation
+                                                  .startCol,
+                                          }
+                                        : undefined,
+                                },
+                            );
 
-                            const innerHTML = serialize(div) || '';
+                            // parse substituted HTML into a fragment
+                            const fragment = parseFragment(inst);
 
-                            // perform {{children}} and {{param}} substitution
-                            let inst = template.replace(
-                                MATCH_CHILDREN_REGEX,
-                                innerHTML,
+                            // the attributes which aren't params go onto
+                            // the root element of the template
+                            const used = getTemplateParams(
+                                template,
+                                templateTagName,
                             );
-
-                            for (const [k, v] of Object.entries(params)) {
-                                const rendered = preserveHtml(v);
-                                inst = inst.replace(
-                                    new RegExp(`\\{\\{${k}\\}\\}`, 'g'),
-                                    rendered,
+                            const forwarded = (node.attrs || []).filter(
+                                (a) => !used.has(a.name),
+                            );
+                            if (!forwardAttrs(fragment, forwarded)) {
+                                logger.warn(
+                                    `template ${templateTagName} has no single root element, dropping ${forwarded.map((a) => a.name).join(', ')} of ${name}`,
                                 );
                             }
 
-                            // parse substituted HTML into a fragment
-                            const fragment = parseFragment(inst);
-
                             // replace the <include-*> node in parent's childNodes
                             if (parent && parent.childNodes) {
                                 parent.childNodes = parent.childNodes.flatMap(
@@ -252,7 +316,16 @@ export class TemplateProcessor extends AssetProcessor {
             ],
         });
 
-        this._templates.set(name, serialize(node) || '');
+        const html = serialize(node) || '';
+        this._templates.set(
+            name,
+            (await this._pluginManager.callHook(
+                'onTemplate',
+                this._cfg,
+                name,
+                html,
+            )) ?? html,
+        );
     }
 
     /**
@@ -358,6 +431,9 @@ export class TemplateProcessor extends AssetProcessor {
         // parse the template file
         const { node: dom, data } = await this._readFile(node.absPath);
 
+        // check the template syntax, while the lines match the file
+        parseTemplate(data, node.absPath);
+
         // set the template
         this._templates.set(node.name, data);
 
@@ -407,7 +483,13 @@ export class TemplateProcessor extends AssetProcessor {
             };
         }
 
-        if (absPath.endsWith('.md')) tmpl = mdHandler.render(tmpl);
+        if (absPath.endsWith('.md')) {
+            // the props of a markdown template are in its front-matter
+            const { attributes, body } = parseFrontMatter(tmpl);
+            tmpl = mdHandler.render(body);
+            if (attributes.props)
+                tmpl = `<!-- props: ${JSON.stringify(attributes.props)} -->\n${tmpl}`;
+        }
 
         return {
             node: parseFragment(tmpl) as Element,
@@ -0,0 +1,299 @@
+import path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import { type MinimalifyConfig } from '@/config/struct.js';
+import {
+    type AssetNode,
+    type AssetProcessorContext,
+    type ChunksAssetContext,
+} from '@/manager/processor/processor.js';
+import {
+    type PageAssets,
+    type PageRoute,
+} from '@/manager/processor/page-processor.js';
+import { type SiteData } from '@/manager/processor/data-processor.js';
+import { errorTypes } from '@/error/index.js';
+import { type LogLevel, logger } from '@/utils/logger.js';
+
+/**
+ * The data a page worker is started with.
+ */
+export interface PageWorkerData {
+    cfg: MinimalifyConfig;
+    templates: Map<string, string>;
+    data: SiteData;
+    routes: Map<string, PageRoute>;
+
+    // the nodes of the processor tree, resolving the template files
+    nodes: AssetNode[];
+    level: LogLevel;
+}
+
+/**
+ * A page task posted to a worker.
+ */
+export type PageTask =
+    | { id: number; type: 'analyze'; relPath: string }
+    | {
+          id: number;
+          type: 'render';
+          relPath: string;
+          chunks: ReturnType<ChunksAssetContext['getChunks']>;
+          write: boolean;
+      };
+
+/**
+ * A processor tree change recorded by a worker, replayed on the main
+ * thread.
+ */
+export type PageGraphOp =
+    | { op: 'addNode'; node: AssetNode }
+    | { op: 'removeNode'; name: string }
+    | { op: 'addDependency' | 'removeDependency'; from: string; to: string };
+
+/**
+ * The result of a page task, posted back by a worker.
+ */
+export interface PageTaskResult {
+    id: number;
+    ops?: PageGraphOp[];
+    assets?: PageAssets;
+
+    // the rendered page, when the worker doesn't write it
+    html?: string;
+    error?: { name: string; message: string; stack?: string };
+}
+
+/**
+ * Start a page worker. The worker has the extension of this module:
+ * .js or .cjs when bundled, .ts when run from the sources with tsx,
+ * whose loader has to be registered in the worker first.
+ * @param workerData the data the worker is started with
+ * @returns the worker
+ */
+const createWorker = (workerData: PageWorkerData) => {
+    const ext = path.extname(fileURLToPath(import.meta.url));
+    const url = new URL(`./page-worker${ext}`, import.meta.url);
+    if (ext !== '.ts') return new Worker(url, { workerData });
+
+    const tsx = pathToFileURL(
+        createRequire(import.meta.url).resolve('tsx/esm/api'),
+    ).href;
+    const bootstrap = `import { register } from ${JSON.stringify(tsx)};
+        register();
+        await import(${JSON.stringify(url.href)});`;
+    return new Worker(
+        new URL(`data:text/javascript,${encodeURIComponent(bootstrap)}`),
+        { workerData },
+    );
+};
+
+/**
+ * PagePool builds the pages in worker threads. A page is rendered by
+ * the worker that analyzed it, as the worker keeps the analyzed
+ * document until then.
+ */
+export class PagePool {
+    private _workers: Worker[] = [];
+
+    // pending tasks → their worker & promise callbacks
+    private _pending = new Map<
+        number,
+        {
+            worker: Worker;
+            resolve: (res: PageTaskResult) => void;
+            reject: (e: Error) => void;
+        }
+    >();
+
+    // page → the worker that analyzed it
+    private _owners = new Map<string, Worker>();
+
+    // worker → number of pending tasks
+    private _load = new Map<Worker, number>();
+
+    private _nextId = 0;
+
+    /**
+     * PagePool constructor
+     * @param cfg the minimalify config object
+     * @param size the number of workers
+     * @param templates the templates available to the pages
+     * @param data the data files available to the pages
+     * @param routes the pages generated from the routes
+     * @param nodes the nodes of the processor tree
+     */
+    constructor(
+        cfg: MinimalifyConfig,
+        size: number,
+        templates: Map<string, string>,
+        data: SiteData,
+        routes: Map<string, PageRoute>,
+        nodes: AssetNode[],
+    ) {
+        const workerData: PageWorkerData = {
+            cfg,
+            templates,
+            data,
+            routes,
+            nodes,
+            level: logger.level,
+        };
+
+        for (let i = 0; i < size; i++) {
+            const worker = createWorker(workerData);
+            worker.on('message', (res: PageTaskResult) => this._settle(res));
+            worker.on('error', (e) => this._fail(worker, e));
+
+            this._workers.push(worker);
+            this._load.set(worker, 0);
+        }
+
+        logger.debug(`started ${size} page workers`);
+    }
+
+    /**
+     * Analyze a page in the least busy worker, then replay the recorded
+     * dependencies of the page in the processor tree.
+     * @param ctx the context for the asset processor
+     * @param relPath the relative path of the page
+     * @returns the asset uris discovered in the page
+     */
+    async analyze(
+        ctx: AssetProcessorContext,
+        relPath: string,
+    ): Promise<PageAssets> {
+        // the workers don't see the tree, drop the previously recorded
+        // dependencies of the page here
+        for (const dep of ctx.getDependencies(relPath))
+            ctx.removeDependency(relPath, dep);
+
+        if (this._workers.length === 0)
+            throw new Error(
+                `no page worker left to analyze ${relPath}, every worker crashed`,
+            );
+
+        const worker = this._workers.reduce((a, b) =>
+            (this._load.get(b) ?? 0) < (this._load.get(a) ?? 0) ? b : a,
+        );
+        this._owners.set(relPath, worker);
+
+        const { ops = [], assets } = await this._post(worker, {
+            id: this._nextId++,
+            type: 'analyze',
+            relPath,
+        });
+
+        for (const op of ops) {
+            if (op.op === 'addNode') ctx.addNode(op.node);
+            else if (op.op === 'removeNode') ctx.removeNode(op.name);
+            else if (op.op === 'addDependency')
+                ctx.addDependency(op.from, op.to);
+            else ctx.removeDependency(op.from, op.to);
+        }
+
+        return (
+            assets ?? {
+                cssUris: [],
+                jsUris: [],
+                imgUris: [],
+                moduleUris: [],
+                jsGroups: {},
+            }
+        );
+    }
+
+    /**
+     * Render an analyzed page in the worker that analyzed it.
+     * @param ctx the context resolving the bundles of the page
+     * @param relPath the relative path of the page
+     * @param write whether the worker minifies & writes the page
+     * @returns the rendered page
+     */
+    async render(ctx: ChunksAssetContext, relPath: string, write = true) {
+        const worker = this._owners.get(relPath);
+        if (!worker) {
+            logger.debug(`page ${relPath} is not analyzed, skipping render`);
+            return '';
+        }
+        this._owners.delete(relPath);
+
+        const res = await this._post(worker, {
+            id: this._nextId++,
+            type: 'render',
+            relPath,
+            chunks: ctx.getChunks(relPath),
+            write,
+        });
+        return res.html ?? '';
+    }
+
+    /**
+     * Stop the workers.
+     */
+    async close() {
+        await Promise.all(this._workers.map((worker) => worker.terminate()));
+        this._workers = [];
+        this._owners.clear();
+    }
+
+    /**
+     * Post a task to a worker.
+     * @param worker the worker
+     * @param task the task
+     * @returns the result of the task
+     */
+    private _post(worker: Worker, task: PageTask): Promise<PageTaskResult> {
+        this._load.set(worker, (this._load.get(worker) ?? 0) + 1);
+
+        return new Promise<PageTaskResult>((resolve, reject) => {
+            this._pending.set(task.id, { worker, resolve, reject });
+            worker.postMessage(task);
+        }).finally(() => {
+            // a crashed worker is no longer part of the pool
+            const load = this._load.get(worker);
+            if (load !== undefined) this._load.set(worker, load - 1);
+        });
+    }
+
+    /**
+     * Settle a task with the result posted by a worker. Errors are
+     * rebuilt as the known error they were thrown as.
+     * @param res the result of the task
+     */
+    private _settle(res: PageTaskResult) {
+        const pending = this._pending.get(res.id);
+        if (!pending) return;
+        this._pending.delete(res.id);
+
+        if (!res.error) return pending.resolve(res);
+
+        const ErrorType =
+            errorTypes.find((type) => type.name === res.error?.name) ?? Error;
+        const error = new ErrorType(res.error.message);
+        if (res.error.stack) error.stack = res.error.stack;
+        pending.reject(error);
+    }
+
+    /**
+     * Drop a crashed worker & fail its pending tasks. The pages it
+     * analyzed can't be rendered anymore.
+     * @param worker the crashed worker
+     * @param e the error of the worker
+     */
+    private _fail(worker: Worker, e: Error) {
+        logger.debug(`page worker crashed → ${e.message}`);
+
+        this._workers = this._workers.filter((w) => w !== worker);
+        this._load.delete(worker);
+        for (const [page, owner] of this._owners)
+            if (owner === worker) this._owners.delete(page);
+
+        for (const [id, pending] of this._pending) {
+            if (pending.worker !== worker) continue;
+            this._pending.delete(id);
+            pending.reject(e);
+        }
+    }
+}
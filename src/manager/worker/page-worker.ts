@@ -0,0 +1,116 @@
+import path from 'path';
+import { parentPort, workerData } from 'worker_threads';
+import { PageProcessor } from '@/manager/processor/page-processor.js';
+import {
+    type AssetProcessorContext,
+    type ChunksAssetContext,
+    type TemplatesAssetContext,
+} from '@/manager/processor/processor.js';
+import { HTTPCache } from '@/cache-manager/http-cache.js';
+import { BuildCache } from '@/cache-manager/build-cache.js';
+import { MinimalifyPluginManager } from '@/plugins/manager.js';
+import { CACHE_DIR } from '@/utils/constants/cache.js';
+import { logger } from '@/utils/logger.js';
+import {
+    type PageGraphOp,
+    type PageTask,
+    type PageTaskResult,
+    type PageWorkerData,
+} from './page-pool.js';
+
+const { cfg, templates, data, routes, nodes, level } =
+    workerData as PageWorkerData;
+
+// node name → node, the nodes added by the tasks included
+const nodesByName = new Map(nodes.map((node) => [node.name, node]));
+
+const baseDir = path.join(process.cwd(), CACHE_DIR);
+const buildCache = new BuildCache(cfg, baseDir);
+const plugins = new MinimalifyPluginManager(undefined, buildCache);
+const pageProcessor = new PageProcessor(
+    cfg,
+    new HTTPCache(cfg, baseDir),
+    plugins,
+    buildCache,
+);
+pageProcessor.addRoutes(routes);
+
+// the main thread already reported the loaded plugins
+logger.level = 'warn';
+const ready = plugins.loadPlugins(cfg).finally(() => {
+    logger.level = level;
+});
+
+/**
+ * Create the context of a task. The workers don't share the processor
+ * tree, so its changes are recorded & replayed on the main thread. The
+ * nodes are known, the dependencies are not.
+ * @param ops collects the processor tree changes
+ * @param chunks the bundles of the page, when rendering
+ * @returns the task context
+ */
+const createContext = (
+    ops: PageGraphOp[],
+    chunks: ReturnType<ChunksAssetContext['getChunks']> = { css: [], js: [] },
+): AssetProcessorContext & TemplatesAssetContext & ChunksAssetContext => ({
+    addNode: (node) => {
+        if (!nodesByName.has(node.name)) nodesByName.set(node.name, node);
+        ops.push({ op: 'addNode', node });
+    },
+    removeNode: (name) => {
+        nodesByName.delete(name);
+        ops.push({ op: 'removeNode', name });
+    },
+    addDependency: (from, to) => ops.push({ op: 'addDependency', from, to }),
+    removeDependency: (from, to) =>
+        ops.push({ op: 'removeDependency', from, to }),
+    getDependencies: () => [],
+    getDependents: () => [],
+    getNodeByName: (name) => nodesByName.get(name),
+    getNodeByAbsPath: (absPath) =>
+        Array.from(nodesByName.values()).find(
+            (node) => node.absPath === absPath,
+        ),
+    getTemplates: async <T>() => templates as unknown as T,
+    getData: async <T>() => data as unknown as T,
+    getChunks: () => chunks,
+});
+
+parentPort?.on('message', async (task: PageTask) => {
+    const ops: PageGraphOp[] = [];
+    let res: PageTaskResult;
+
+    try {
+        await ready;
+
+        if (task.type === 'analyze') {
+            await pageProcessor.analyze(createContext(ops), task.relPath);
+            res = {
+                id: task.id,
+                ops,
+                assets: await pageProcessor.getAssets('external', () =>
+                    Promise.resolve([task.relPath]),
+                ),
+            };
+        } else {
+            const html = await pageProcessor.render(
+                createContext(ops, task.chunks),
+                task.relPath,
+                task.write,
+            );
+            res = { id: task.id, ...(task.write ? {} : { html }) };
+        }
+    } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        res = {
+            id: task.id,
+            error: {
+                name: error.name,
+                message: error.message,
+                stack: error.stack,
+            },
+        };
+    }
+
+    parentPort?.postMessage(res);
+});
@@ -0,0 +1,418 @@
+import { jest } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveConfig } from '@/config/loader.js';
+import { type MinimalifyConfig } from '@/config/struct.js';
+import { PluginError } from '@/error/plugin-error.js';
+import { ValidationError } from '@/error/validation-error.js';
+import { MinimalifyPluginManager, resolvePlugin } from '@/plugins/manager.js';
+import {
+    type MinimalifyPlugin,
+    type PluginContext,
+} from '@/plugins/typings.js';
+import { logger } from '@/utils/logger.js';
+
+let projectDir: string;
+
+/**
+ * Write a file of the project.
+ * @param file the path of the file, relative to the project dir
+ * @param content the content of the file
+ * @returns the absolute path of the file
+ */
+const writeFile = (file: string, content: string) => {
+    const absPath = path.join(projectDir, file);
+    fs.mkdirSync(path.dirname(absPath), { recursive: true });
+    fs.writeFileSync(absPath, content);
+    return absPath;
+};
+
+/**
+ * Load the plugins of a config.
+ * @param plugins the plugin entries
+ * @param config the other fields of the config
+ * @returns the plugin manager
+ */
+const loadPlugins = async (
+    plugins: MinimalifyConfig['plugins'],
+    config: Partial<MinimalifyConfig> = {},
+) => {
+    const manager = new MinimalifyPluginManager();
+    await manager.loadPlugins({
+        out_dir: path.join(projectDir, 'dist'),
+        ...config,
+        plugins,
+    } as MinimalifyConfig);
+    return manager;
+};
+
+beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'minimalify-'));
+
+    // the packages are resolved from the project in cwd
+    jest.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(projectDir, { recursive: true, force: true });
+});
+
+describe('resolvePlugin', () => {
+    it('resolves a built-in plugin by its name', async () => {
+        expect((await resolvePlugin('sitemap')).name).toBe('sitemap');
+    });
+
+    it('loads a local file', async () => {
+        const file = writeFile(
+            'plugins/local.cjs',
+            "module.exports = { name: 'local' };",
+        );
+
+        expect(await resolvePlugin(file)).toEqual({ name: 'local' });
+    });
+
+    it('loads an installed package of the project', async () => {
+        writeFile(
+            'node_modules/minimalify-plugin-banner/package.json',
+            JSON.stringify({
+                name: 'minimalify-plugin-banner',
+                main: 'index.cjs',
+            }),
+        );
+        writeFile(
+            'node_modules/minimalify-plugin-banner/index.cjs',
+            "module.exports = { default: { name: 'banner' } };",
+        );
+
+        expect(await resolvePlugin('minimalify-plugin-banner')).toEqual({
+            name: 'banner',
+        });
+    });
+
+    it('rejects a missing or invalid plugin', async () => {
+        await expect(
+            resolvePlugin('minimalify-plugin-missing'),
+        ).rejects.toThrow(
+            new PluginError(
+                'plugin minimalify-plugin-missing not found, it is neither a built-in plugin nor an installed package',
+            ),
+        );
+        await expect(
+            resolvePlugin({ name: 'inline', onPage: 'nope' } as never),
+        ).rejects.toThrow(
+            new PluginError(
+                'plugin inline has an invalid onPage hook, expected a function',
+            ),
+        );
+    });
+
+    it('loads the other plugins when one fails', async () => {
+        const error = jest.spyOn(logger, 'error');
+        const onPreBuild = jest.fn<() => void>();
+        const manager = await loadPlugins([
+            'minimalify-plugin-missing',
+            { name: 'inline', onPreBuild },
+        ]);
+        await manager.callHook('onPreBuild', {} as MinimalifyConfig);
+
+        expect(onPreBuild).toHaveBeenCalledTimes(1);
+        expect(error).toHaveBeenCalledWith(
+            'failed to load the following plugins → minimalify-plugin-missing',
+        );
+    });
+});
+
+describe('plugin options', () => {
+    const plugin = {
+        name: 'banner',
+        optionsSchema: {
+            type: 'object',
+            properties: { text: { type: 'string' } },
+            additionalProperties: false,
+        },
+        onPreBuild(this: PluginContext<{ text: string }>) {
+            seen.push(this.options.text);
+        },
+    };
+    let seen: (string | undefined)[];
+
+    beforeEach(() => {
+        seen = [];
+    });
+
+    it('gives each entry of a plugin its own options', async () => {
+        const manager = await loadPlugins([
+            [plugin, { text: 'a' }],
+            [plugin, { text: 'b' }],
+            plugin,
+        ]);
+        await manager.callHook('onPreBuild', {} as MinimalifyConfig);
+
+        expect(seen).toEqual(['a', 'b', undefined]);
+    });
+
+    it('validates the options against the schema of the plugin', async () => {
+        writeFile('index.html', '<html></html>');
+        await expect(
+            resolveConfig(projectDir, {
+                plugins: [[plugin, { text: 1 }]],
+            } as unknown as MinimalifyConfig),
+        ).rejects.toThrow(ValidationError);
+        await expect(
+            resolveConfig(projectDir, {
+                plugins: [[plugin, { text: 'a' }]],
+            } as unknown as MinimalifyConfig),
+        ).resolves.toBeDefined();
+    });
+});
+
+describe('hooks', () => {
+    const cfg = {} as MinimalifyConfig;
+
+    it('orders the plugins by enforce, config order & constraints', async () => {
+        const order: string[] = [];
+        const plugin = (
+            name: string,
+            fields: Partial<MinimalifyPlugin> = {},
+        ): MinimalifyPlugin => ({
+            name,
+            ...fields,
+            onPreBuild: () => {
+                order.push(name);
+            },
+        });
+
+        const manager = await loadPlugins([
+            plugin('late', { enforce: 'post' }),
+            plugin('a'),
+            plugin('b', { before: ['a'] }),
+            plugin('early', { enforce: 'pre' }),
+            plugin('c', { after: ['late'] }),
+        ]);
+        await manager.callHook('onPreBuild', cfg);
+
+        expect(order).toEqual(['early', 'b', 'a', 'late', 'c']);
+    });
+
+    it('rejects circular constraints', async () => {
+        await expect(
+            loadPlugins([
+                { name: 'a', after: ['b'] },
+                { name: 'b', after: ['a'] },
+            ]),
+        ).rejects.toThrow(PluginError);
+    });
+
+    it('runs the sequential hooks one after the other', async () => {
+        const events: string[] = [];
+        const plugin = (name: string, delay: number): MinimalifyPlugin => ({
+            name,
+            onPostBuild: async () => {
+                events.push(`${name}:start`);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                events.push(`${name}:end`);
+            },
+        });
+
+        const manager = await loadPlugins([plugin('a', 20), plugin('b', 0)]);
+        await manager.callHook('onPostBuild', cfg);
+
+        expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    });
+
+    it('runs the parallel hooks at once', async () => {
+        const events: string[] = [];
+        const plugin = (name: string, delay: number): MinimalifyPlugin => ({
+            name,
+            onFileChange: async () => {
+                events.push(`${name}:start`);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                events.push(`${name}:end`);
+            },
+        });
+
+        const manager = await loadPlugins([plugin('a', 20), plugin('b', 0)]);
+        await manager.callHook('onFileChange', cfg, 'index.html');
+
+        expect(events).toEqual(['a:start', 'b:start', 'b:end', 'a:end']);
+    });
+
+    it('threads the result of the waterfall hooks', async () => {
+        const manager = await loadPlugins([
+            { name: 'a', onPreHtmlMinify: (_cfg, html) => `${html}a` },
+            { name: 'none' },
+            { name: 'b', onPreHtmlMinify: (_cfg, html) => `${html}b` },
+            {
+                name: 'map',
+                onPostBundle: (_cfg, _type, content) => ({
+                    content: `${content};`,
+                    map: '{}',
+                }),
+            },
+            { name: 'content', onPostBundle: (_cfg, _type, c) => `/**/${c}` },
+        ]);
+
+        expect(await manager.callHook('onPreHtmlMinify', cfg, 'html')).toBe(
+            'htmlab',
+        );
+        expect(
+            await manager.callHook('onPostBundle', cfg, 'js', 'a=1'),
+        ).toEqual({ content: '/**/a=1;', map: '{}' });
+        expect(
+            await new MinimalifyPluginManager().callHook(
+                'onPreHtmlMinify',
+                cfg,
+                'html',
+            ),
+        ).toBe('html');
+    });
+
+    it('returns the first result of the first hooks', async () => {
+        const last = jest.fn(() => '/last.js');
+        const manager = await loadPlugins([
+            { name: 'none', onResolveImport: () => undefined },
+            {
+                name: 'first',
+                onResolveImport: (_cfg, source) => `/${source}.js`,
+            },
+            { name: 'last', onResolveImport: last },
+        ]);
+
+        expect(
+            await manager.callHook('onResolveImport', cfg, 'greet', '/app.js'),
+        ).toBe('/greet.js');
+        expect(last).not.toHaveBeenCalled();
+        expect(
+            await new MinimalifyPluginManager().callHook(
+                'onResolveImport',
+                cfg,
+                'greet',
+                '/app.js',
+            ),
+        ).toBeUndefined();
+    });
+});
+
+describe('plugin apply', () => {
+    /**
+     * Load the plugins of every apply.
+     * @param mode the mode of the config
+     * @returns the names of the loaded plugins
+     */
+    const loadedNames = async (mode?: MinimalifyConfig['mode']) => {
+        const names: string[] = [];
+        const plugin = (
+            name: string,
+            apply?: MinimalifyPlugin['apply'],
+        ): MinimalifyPlugin => ({
+            name,
+            apply,
+            onPreBuild: () => {
+                names.push(name);
+            },
+        });
+
+        const manager = await loadPlugins(
+            [
+                plugin('default'),
+                plugin('build', 'build'),
+                plugin('dev', 'dev'),
+                plugin('both', 'both'),
+            ],
+            { mode },
+        );
+        await manager.callHook('onPreBuild', {} as MinimalifyConfig);
+        return names;
+    };
+
+    it.each([
+        ['build', ['default', 'build', 'both']],
+        ['dev', ['dev', 'both']],
+    ] as const)('loads the plugins applying to %s', async (mode, names) => {
+        expect(await loadedNames(mode)).toEqual(names);
+    });
+
+    it('loads the build plugins when the mode is not set', async () => {
+        expect(await loadedNames()).toEqual(['default', 'build', 'both']);
+    });
+
+    it('rejects an invalid apply', async () => {
+        const error = jest.spyOn(logger, 'error').mockImplementation(() => {});
+        await loadPlugins([
+            { name: 'bad', apply: 'always' as MinimalifyPlugin['apply'] },
+        ]);
+
+        expect(error).toHaveBeenCalledWith(
+            expect.stringContaining(
+                'failed to load the following plugins → bad',
+            ),
+        );
+    });
+});
+
+describe('plugin context', () => {
+    /**
+     * Load a plugin and get the context its hooks are called with.
+     * @param config the other fields of the config
+     * @returns the context of the plugin
+     */
+    const getContext = async (config: Partial<MinimalifyConfig> = {}) => {
+        const onPreBuild = jest.fn<() => void>();
+        const manager = await loadPlugins(
+            [{ name: 'sitemap', apply: 'both', onPreBuild }],
+            config,
+        );
+        await manager.callHook('onPreBuild', {} as MinimalifyConfig);
+        return onPreBuild.mock.contexts[0] as PluginContext;
+    };
+
+    it('emits the files into the out dir', async () => {
+        const context = await getContext();
+
+        const dst = context.emitFile('sitemap/pages.xml', '<urlset/>');
+        context.emitFile('404.html', '<html></html>');
+
+        expect(dst).toBe(path.join(projectDir, 'dist/sitemap/pages.xml'));
+        expect(fs.readFileSync(dst, 'utf-8')).toBe('<urlset/>');
+        expect(context.getEmittedFiles()).toEqual([
+            '404.html',
+            'sitemap/pages.xml',
+        ]);
+        expect(await context.getPages()).toEqual(['404.html']);
+    });
+
+    it('rejects a file outside of the out dir', async () => {
+        const context = await getContext();
+
+        expect(() => context.emitFile('../escaped.txt', '')).toThrow(
+            PluginError,
+        );
+        expect(() =>
+            context.emitFile(path.join(projectDir, 'escaped.txt'), ''),
+        ).toThrow(PluginError);
+        expect(() => context.emitFile('.', '')).toThrow(PluginError);
+        expect(fs.existsSync(path.join(projectDir, 'escaped.txt'))).toBe(false);
+        expect(context.getEmittedFiles()).toEqual([]);
+    });
+
+    it('prefixes the logs with the name of the plugin', async () => {
+        const warn = jest.spyOn(logger, 'warn').mockImplementation(() => {});
+        const context = await getContext();
+
+        context.logger.warn('no pages found');
+
+        expect(warn).toHaveBeenCalledWith('sitemap-plugin: no pages found');
+    });
+
+    it('gives the name, the mode & an empty graph before the build', async () => {
+        const context = await getContext({ mode: 'dev' });
+
+        expect(context.name).toBe('sitemap');
+        expect(context.mode).toBe('dev');
+        expect(context.getGraph()).toEqual({ nodes: [], edges: [] });
+        expect(await context.getRouteDataFiles()).toEqual([]);
+    });
+});
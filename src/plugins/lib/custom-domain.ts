@@ -1,8 +1,7 @@
 import fs from 'fs';
 import path from 'path';
-import fg from 'fast-glob';
 import { type MinimalifyPlugin } from '../typings.js';
-import { logger } from '@/utils/logger.js';
+import { publicUrl } from '@/utils/url.js';
 
 /**
  * custom-domain plugin
@@ -16,40 +15,33 @@ export const customDomain: MinimalifyPlugin = {
 
     async onPostBuild(cfg) {
         if (!cfg.custom_domain) return;
-        logger.debug(
-            `${this.name}-plugin: custom domain → ${cfg.custom_domain}`,
-        );
+        this.logger.debug(`custom domain → ${cfg.custom_domain}`);
 
-        const outDir = cfg.out_dir;
         // 1) Write CNAME
-        fs.writeFileSync(path.join(outDir, 'CNAME'), cfg.custom_domain, 'utf8');
+        this.emitFile('CNAME', cfg.custom_domain);
 
         // 2) Update HTML pages
-        const htmlFiles = await fg('**/*.html', {
-            cwd: outDir,
-            absolute: true,
-        });
-        for (const htmlPath of htmlFiles) {
-            let html = fs.readFileSync(htmlPath, 'utf8');
-            const domain = cfg.custom_domain.replace(/\/$/, '');
-            // canonical link
-            html = html.replace(
-                /<link rel="canonical" href="[^"]*"/g,
-                `<link rel="canonical" href="${domain}${htmlPath
-                    .replace(outDir, '')
-                    .replace(/\\/g, '/')}"`, // normalize slash
-            );
-            // OpenGraph URL
-            html = html.replace(
-                /<meta property="og:url" content="[^"]*"/g,
-                `<meta property="og:url" content="${domain}${htmlPath
-                    .replace(outDir, '')
-                    .replace(/\\/g, '/')}"`,
-            );
-            fs.writeFileSync(htmlPath, html, 'utf8');
+        const domain = cfg.custom_domain.replace(/\/$/, '');
+        const pages = await this.getPages();
+        for (const page of pages) {
+            const htmlPath = path.join(cfg.out_dir, page);
+            if (!fs.existsSync(htmlPath)) continue;
+
+            const url = `${domain}${publicUrl(cfg, page)}`;
+            const html = fs
+                .readFileSync(htmlPath, 'utf8')
+                // canonical link
+                .replace(
+                    /<link rel="canonical" href="[^"]*"/g,
+                    `<link rel="canonical" href="${url}"`,
+                )
+                // OpenGraph URL
+                .replace(
+                    /<meta property="og:url" content="[^"]*"/g,
+                    `<meta property="og:url" content="${url}"`,
+                );
+            this.emitFile(page, html);
         }
-        logger.debug(
-            `${this.name}-plugin: updated HTML pages → ${htmlFiles.join(', ')}`,
-        );
+        this.logger.debug(`updated HTML pages → ${pages.join(', ')}`);
     },
 };
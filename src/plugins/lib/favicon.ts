@@ -12,10 +12,20 @@ import {
 } from '@/utils/favicon.js';
 import { ensureDir } from '@/utils/dir.js';
 import { type MinimalifyConfig } from '@/config/struct.js';
+import { assetUrl, formatBasePath, publicUrl } from '@/utils/url.js';
 
 const BASE_IMG_NAME = 'generated-favicon';
 const ALT_IMG_NAME = 'generated-favicon-alt';
 
+/**
+ * Format the public url of a generated icon.
+ * @param cfg the config object
+ * @param absPath the absolute path of the icon in the out dir
+ * @returns the url of the icon
+ */
+const formatIconUrl = (cfg: MinimalifyConfig, absPath: string) =>
+    assetUrl(cfg, path.relative(cfg.out_dir, absPath));
+
 async function exists(filePath: string): Promise<boolean> {
     try {
         await fs.access(filePath, fsConstants.F_OK);
@@ -28,6 +38,9 @@ async function exists(filePath: string): Promise<boolean> {
 export const favicon: MinimalifyPlugin = {
     name: 'favicon',
 
+    // keep the dev pages like the production ones
+    apply: 'both',
+
     async onPage(cfg, _pagePath, doc) {
         const faviconCfg = cfg.favicon;
         if (!faviconCfg?.base) {
@@ -215,7 +228,7 @@ const generateFaviconTag = (
                 },
                 {
                     name: 'href',
-                    value: path.relative(cfg.out_dir, icon.outPath),
+                    value: formatIconUrl(cfg, icon.outPath),
                 },
             ],
         } as DefaultTreeAdapterMap['element']);
@@ -234,8 +247,8 @@ const generateFaviconTag = (
             },
             {
                 name: 'href',
-                value: path.relative(
-                    cfg.out_dir,
+                value: formatIconUrl(
+                    cfg,
                     path.join(destinationFolder, 'favicon.ico'),
                 ),
             },
@@ -256,8 +269,8 @@ const generateFaviconTag = (
             },
             {
                 name: 'href',
-                value: path.relative(
-                    cfg.out_dir,
+                value: formatIconUrl(
+                    cfg,
                     path.join(destinationFolder, BASE_IMG_NAME + '.svg'),
                 ),
             },
@@ -288,8 +301,8 @@ const generateSafariTag = (
             },
             {
                 name: 'href',
-                value: path.relative(
-                    cfg.out_dir,
+                value: formatIconUrl(
+                    cfg,
                     path.join(destinationFolder, baseImg),
                 ),
             },
@@ -332,7 +345,7 @@ const generateMsTileTag = async (
                 },
                 {
                     name: 'content',
-                    value: path.relative(cfg.out_dir, icon.outPath),
+                    value: formatIconUrl(cfg, icon.outPath),
                 },
             ],
         } as DefaultTreeAdapterMap['element']);
@@ -350,7 +363,7 @@ const generateMsTileTag = async (
                 },
                 {
                     name: 'content',
-                    value: path.relative(cfg.out_dir, lastMsTileIcon.outPath),
+                    value: formatIconUrl(cfg, lastMsTileIcon.outPath),
                 },
             ],
         } as DefaultTreeAdapterMap['element']);
@@ -359,7 +372,7 @@ const generateMsTileTag = async (
 <browserconfig> \
     <msapplication> \
         <tile> \
-            <${lastMsTileIcon.width === lastMsTileIcon.height ? 'square' : 'wide'}${lastMsTileIcon.sizeKey}logo src="${path.relative(cfg.out_dir, lastMsTileIcon.outPath)}"/> \
+            <${lastMsTileIcon.width === lastMsTileIcon.height ? 'square' : 'wide'}${lastMsTileIcon.sizeKey}logo src="${formatIconUrl(cfg, lastMsTileIcon.outPath)}"/> \
             <TileColor>${cfg.favicon?.background_color ?? '#ffffff'}</TileColor> \
         </tile> \
     </msapplication> \
@@ -379,7 +392,7 @@ const generateMsTileTag = async (
                 },
                 {
                     name: 'content',
-                    value: 'browserconfig.xml',
+                    value: publicUrl(cfg, 'browserconfig.xml'),
                 },
             ],
         } as DefaultTreeAdapterMap['element']);
@@ -435,9 +448,9 @@ const generatePwaTag = async (
     if (cfg.seo?.url && cfg.seo?.url.length > 0) {
         try {
             const urlObj = new URL(cfg.seo.url);
-            manifest['start_url'] = urlObj.pathname || '/';
+            manifest['start_url'] = urlObj.pathname || formatBasePath(cfg);
         } catch {
-            manifest['start_url'] = '/';
+            manifest['start_url'] = formatBasePath(cfg);
         }
     }
 
@@ -453,7 +466,7 @@ const generatePwaTag = async (
 
     manifest['icons'] = icons.map((icon) => {
         return {
-            src: path.relative(cfg.out_dir, icon.outPath),
+            src: formatIconUrl(cfg, icon.outPath),
             sizes: icon.sizeKey,
             type: 'image/png',
         };
@@ -481,7 +494,7 @@ const generatePwaTag = async (
             },
             {
                 name: 'href',
-                value: 'site.webmanifest',
+                value: publicUrl(cfg, 'site.webmanifest'),
             },
         ],
     } as DefaultTreeAdapterMap['element']);
@@ -512,7 +525,7 @@ const generateAppleTag = (
                 },
                 {
                     name: 'href',
-                    value: path.relative(cfg.out_dir, icon.outPath),
+                    value: formatIconUrl(cfg, icon.outPath),
                 },
             ],
         } as DefaultTreeAdapterMap['element']);
@@ -45,7 +45,20 @@ export const imageOptimizer: MinimalifyPlugin = {
             await limit(async () => {
                 // Read, optimize, and overwrite
                 const buffer = fs.readFileSync(dest);
-                const optimized = await sharp(buffer).toBuffer();
+
+                // optimized images are reused across builds
+                const key = await this.buildCache?.key(
+                    `img${ext}`,
+                    buffer.toString('base64'),
+                );
+
+                let optimized = key
+                    ? this.buildCache?.getBuffer(key)
+                    : undefined;
+                if (!optimized) {
+                    optimized = await sharp(buffer).toBuffer();
+                    if (key) this.buildCache?.set(key, optimized);
+                }
                 fs.writeFileSync(dest, optimized);
             });
             logger.debug(
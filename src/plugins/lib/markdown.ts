@@ -1,17 +1,23 @@
 import fs from 'fs';
 import path from 'path';
-import fm from 'front-matter';
 import MarkdownIt from 'markdown-it';
-import { type MinimalifyPlugin } from '../typings.js';
+import { type MinimalifyPlugin, type PluginContext } from '../typings.js';
+import { type MinimalifyConfig } from '@/config/struct.js';
 import { gatherMdFiles } from '@/utils/glob.js';
-import { logger } from '@/utils/logger.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
+import { applyLayoutToHtml } from '@/utils/layout.js';
+import { LAYOUTS_DIR_NAME } from '@/utils/constants/file-name.js';
+import { TemplateError } from '@/error/template-error.js';
+import { parseFrontMatter } from '@/utils/data.js';
 
 /**
  * markdown plugin
  *
  * Renders .md pages in srcDir to HTML in outDir,
  * injecting optional front-matter attributes as meta-tags.
+ * A `layout: name` front-matter wraps the page in
+ * `templates/layouts/name.html`, its includes are not expanded.
+ * The .md files of the route collections are data, not pages.
  */
 const md = new MarkdownIt({
     html: true,
@@ -19,46 +25,64 @@ const md = new MarkdownIt({
     typographer: true,
 });
 
-export const markdown: MinimalifyPlugin = {
-    name: 'markdown',
+/**
+ * Get the absolute path of a layout.
+ * @param cfg the minimalify config object
+ * @param layout the name of the layout
+ * @returns the absolute path of the layout
+ */
+const getLayoutPath = (cfg: MinimalifyConfig, layout: string) =>
+    path.join(
+        cfg.src_dir,
+        cfg.templates?.dir ?? 'templates',
+        LAYOUTS_DIR_NAME,
+        `${layout}.html`,
+    );
 
-    async onPreBuild(cfg) {
-        // Find all .md pages in srcDir
-        logger.debug(`${this.name}-plugin: gathering .md files`);
-        const pages = await gatherMdFiles(cfg);
-        if (pages.length === 0) {
-            logger.debug(`${this.name}-plugin: no .md files found`);
-            return;
-        }
-        logger.debug(`${this.name}-plugin: found ${pages.length} .md files`);
-        for (const absMd of pages) {
-            const rel = path.relative(cfg.src_dir, absMd);
-            const raw = fs.readFileSync(absMd, 'utf8');
-
-            // parse front-matter
-            // @ts-expect-error front-matter types are not correct
-            const { attributes, body } = fm(raw) as {
-                attributes: Record<string, any>;
-                body: string;
-            };
-
-            // Render markdown to HTML
-            const htmlBody = md.render(body);
-
-            // Build a simple HTML page
-            const title = attributes.title || path.basename(rel, '.md');
-            const headMeta = [
-                `<meta charset="UTF-8">`,
-                `<title>${title}</title>`,
-            ];
-
-            if (attributes.date) {
-                headMeta.push(
-                    `<meta name="date" content="${attributes.date}">`,
-                );
-            }
-
-            const htmlPage = `
+/**
+ * Gather the .md pages of the src dir, without the files the route
+ * collections read as data.
+ * @param ctx the context of the plugin
+ * @param cfg the minimalify config object
+ * @returns the absolute paths of the .md pages
+ */
+const gatherMdPages = async (ctx: PluginContext, cfg: MinimalifyConfig) => {
+    const routeData = new Set(await ctx.getRouteDataFiles());
+    return (await gatherMdFiles(cfg)).filter(
+        (absMd) => !routeData.has(path.relative(cfg.src_dir, absMd)),
+    );
+};
+
+/**
+ * Render a .md page of the src dir to an html page in the out dir.
+ * @param ctx the context of the plugin, emitting the page
+ * @param cfg the minimalify config object
+ * @param absMd the absolute path of the .md page
+ * @throws {TemplateError} if the layout of the page is missing
+ */
+const renderPage = (
+    ctx: PluginContext,
+    cfg: MinimalifyConfig,
+    absMd: string,
+) => {
+    const rel = path.relative(cfg.src_dir, absMd);
+    const raw = fs.readFileSync(absMd, 'utf8');
+
+    // parse front-matter
+    const { attributes, body } = parseFrontMatter<Record<string, any>>(raw);
+
+    // Render markdown to HTML
+    const htmlBody = md.render(body);
+
+    // Build a simple HTML page
+    const title = attributes.title || path.basename(rel, '.md');
+    const headMeta = [`<meta charset="UTF-8">`, `<title>${title}</title>`];
+
+    if (attributes.date) {
+        headMeta.push(`<meta name="date" content="${attributes.date}">`);
+    }
+
+    const htmlPage = `
 <!DOCTYPE html>
 <html lang="en">
 <head>
@@ -69,18 +93,61 @@ ${htmlBody}
 </body>
 </html>`.trim();
 
-            // Write .html in outDir
-            const outRel = rel.replace(/\.md$/, '.html');
-            const dst = path.join(cfg.out_dir, outRel);
+    // Wrap the page in its layout, the front-matter are the params
+    let html = htmlPage;
+    if (attributes.layout) {
+        const layoutPath = getLayoutPath(cfg, String(attributes.layout));
+        if (!fs.existsSync(layoutPath)) {
+            throw new TemplateError(
+                `layout ${attributes.layout} of ${rel} not found → ${path.relative(cfg.src_dir, layoutPath)}`,
+            );
+        }
+        html = applyLayoutToHtml(
+            htmlPage,
+            fs.readFileSync(layoutPath, 'utf8'),
+            { file: layoutPath, data: attributes },
+        );
+    }
 
-            fs.mkdirSync(path.dirname(dst), { recursive: true });
-            fs.writeFileSync(dst, htmlPage, 'utf8');
+    // Write .html in outDir
+    const dst = ctx.emitFile(rel.replace(/\.md$/, '.html'), html);
+    ctx.logger.debug(
+        `wrote HTML page → ${terminalPretty.underline(
+            path.relative(process.cwd(), dst),
+        )}`,
+    );
+};
 
-            logger.debug(
-                `${this.name}-plugin: wrote HTML page → ${terminalPretty.underline(
-                    path.relative(process.cwd(), dst),
-                )}`,
-            );
+export const markdown: MinimalifyPlugin = {
+    name: 'markdown',
+
+    // keep the dev pages like the production ones
+    apply: 'both',
+
+    async onPreBuild(cfg) {
+        // Find all .md pages in srcDir
+        this.logger.debug('gathering .md files');
+        const pages = await gatherMdPages(this, cfg);
+        if (pages.length === 0) {
+            this.logger.debug('no .md files found');
+            return;
         }
+        this.logger.debug(`found ${pages.length} .md files`);
+        for (const absMd of pages) renderPage(this, cfg, absMd);
+    },
+
+    async onFileChange(cfg, file) {
+        // a layout change renders the pages again
+        const layouts = path.dirname(getLayoutPath(cfg, 'layout'));
+        if (file.startsWith(layouts + path.sep) && file.endsWith('.html')) {
+            for (const absMd of await gatherMdPages(this, cfg))
+                renderPage(this, cfg, absMd);
+            return;
+        }
+
+        if (!file.endsWith('.md') || !fs.existsSync(file)) return;
+        const routeData = await this.getRouteDataFiles();
+        if (routeData.includes(path.relative(cfg.src_dir, file))) return;
+        renderPage(this, cfg, file);
     },
 };
@@ -9,6 +9,9 @@ import {
 export const seo: MinimalifyPlugin = {
     name: 'seo',
 
+    // keep the dev pages like the production ones
+    apply: 'both',
+
     onPage(cfg, pagePath, doc) {
         logger.debug(
             `${this.name}-plugin: injecting SEO metadata → ${pagePath}`,
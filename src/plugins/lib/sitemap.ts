@@ -1,32 +1,86 @@
-import fs from 'fs';
 import path from 'path';
 import fg from 'fast-glob';
 import { type MinimalifyPlugin } from '../typings.js';
-import { logger } from '@/utils/logger.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
+import { formatBasePath, publicUrl } from '@/utils/url.js';
+
+/**
+ * Options of the sitemap plugin.
+ */
+export interface SitemapOptions {
+    // globs of the pages left out of the sitemap
+    exclude: string[];
+
+    // how often the pages are expected to change
+    changefreq:
+        | 'always'
+        | 'hourly'
+        | 'daily'
+        | 'weekly'
+        | 'monthly'
+        | 'yearly'
+        | 'never';
+
+    // the priority of the pages, between 0 and 1
+    priority: number;
+}
 
 /**
  * sitemap plugin
  *
  * After the site is built, generates sitemap.xml in the outDir.
  */
-export const sitemap: MinimalifyPlugin = {
+export const sitemap: MinimalifyPlugin<SitemapOptions> = {
     name: 'sitemap',
 
+    optionsSchema: {
+        type: 'object',
+        properties: {
+            exclude: { type: 'array', items: { type: 'string' } },
+            changefreq: {
+                enum: [
+                    'always',
+                    'hourly',
+                    'daily',
+                    'weekly',
+                    'monthly',
+                    'yearly',
+                    'never',
+                ],
+            },
+            priority: { type: 'number', minimum: 0, maximum: 1 },
+        },
+        additionalProperties: false,
+    },
+
     async onPostBuild(cfg) {
-        logger.debug(`${this.name}-plugin: generating sitemap.xml`);
+        this.logger.debug('generating sitemap.xml');
 
-        const pages = await fg('**/*.html', {
-            cwd: cfg.out_dir,
-            onlyFiles: true,
-        });
+        const { exclude = [], changefreq, priority } = this.options;
+        const excluded = new Set(
+            exclude.length > 0 ? await fg(exclude, { cwd: cfg.out_dir }) : [],
+        );
+        const pages = (await this.getPages()).filter(
+            (rel) => !excluded.has(rel),
+        );
+
+        this.logger.debug(`found ${pages.length} HTML pages`);
 
-        logger.debug(`${this.name}-plugin: found ${pages.length} HTML pages`);
+        // the site url may already end with the base path
+        const basePath = formatBasePath(cfg).replace(/\/$/, '');
+        let domain = cfg.seo?.url?.replace(/\/$/, '') || '';
+        if (basePath && domain.endsWith(basePath))
+            domain = domain.slice(0, -basePath.length);
 
-        const domain = cfg.seo?.url?.replace(/\/$/, '') || '';
         const urls = pages.map((rel) => {
-            const loc = domain ? `${domain}/${rel}` : rel;
-            return `  <url><loc>${loc}</loc></url>`;
+            const loc = `${domain}${publicUrl(cfg, rel)}`;
+            const extra = [
+                changefreq && `<changefreq>${changefreq}</changefreq>`,
+                priority !== undefined && `<priority>${priority}</priority>`,
+            ]
+                .filter(Boolean)
+                .join('');
+            return `  <url><loc>${loc}</loc>${extra}</url>`;
         });
 
         const xml = [
@@ -36,11 +90,9 @@ export const sitemap: MinimalifyPlugin = {
             '</urlset>',
         ].join('\n');
 
-        const dest = path.join(cfg.out_dir, 'sitemap.xml');
-        fs.writeFileSync(dest, xml, 'utf8');
-
-        logger.info(
-            `${this.name}-plugin: sitemap.xml generated → ${terminalPretty.underline(path.relative(process.cwd(), dest))}`,
+        const dest = this.emitFile('sitemap.xml', xml);
+        this.logger.info(
+            `sitemap.xml generated → ${terminalPretty.underline(path.relative(process.cwd(), dest))}`,
         );
     },
 };
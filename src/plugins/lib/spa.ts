@@ -2,8 +2,19 @@ import fs from 'fs';
 import path from 'path';
 import fg from 'fast-glob';
 import { type MinimalifyPlugin } from '../typings.js';
-import { logger } from '@/utils/logger.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
+import { assetUrl, formatBasePath, publicUrl } from '@/utils/url.js';
+
+/**
+ * Options of the spa plugin.
+ */
+export interface SpaOptions {
+    // the name of the service-worker cache, change it to drop old caches
+    cache_name: string;
+
+    // globs of the files left out of the pre-cache
+    exclude: string[];
+}
 
 /**
  * spa plugin
@@ -11,30 +22,45 @@ import { terminalPretty } from '@/lib/terminal-pretty.js';
  * Generates a simple service-worker (sw.js) that pre-caches
  * all HTML, CSS, JS and image assets for offline use.
  */
-export const spa: MinimalifyPlugin = {
+export const spa: MinimalifyPlugin<SpaOptions> = {
     name: 'spa',
 
+    // the service-worker pre-caches the output of the other plugins
+    enforce: 'post',
+
+    optionsSchema: {
+        type: 'object',
+        properties: {
+            cache_name: { type: 'string', minLength: 1 },
+            exclude: { type: 'array', items: { type: 'string' } },
+        },
+        additionalProperties: false,
+    },
+
     async onPostBuild(cfg) {
-        logger.debug(`${this.name}-plugin: generating service-worker`);
+        this.logger.debug('generating service-worker');
+
+        const { cache_name = 'statickit-cache-v1', exclude = [] } =
+            this.options;
 
         const outDir = cfg.out_dir;
         // Gather all files to pre-cache
-        const cacheFiles: string[] = [];
-        const walk = (dir: string) => {
-            for (const fn of fs.readdirSync(dir)) {
-                const abs = path.join(dir, fn);
-                if (fs.statSync(abs).isDirectory()) {
-                    walk(abs);
-                } else {
-                    const rel = path.relative(outDir, abs).replace(/\\/g, '/');
-                    cacheFiles.push(`'${rel}'`);
-                }
-            }
-        };
-        walk(outDir);
+        const files = await fg('**/*', {
+            cwd: outDir,
+            onlyFiles: true,
+            ignore: exclude,
+        });
+        const cacheFiles = files.map((rel) => {
+            // pages & site files stay on the base path, the
+            // assets may be served from the asset prefix
+            const url = /\.(html|xml|txt|json|webmanifest)$/.test(rel)
+                ? publicUrl(cfg, rel)
+                : assetUrl(cfg, rel);
+            return `'${url}'`;
+        });
 
         const sw = `\
-const CACHE_NAME = 'statickit-cache-v1';
+const CACHE_NAME = ${JSON.stringify(cache_name)};
 const ASSETS = [
   ${cacheFiles.join(',\n  ')}
 ];
@@ -63,35 +89,33 @@ self.addEventListener('activate', event => {
 });
 `;
         // Write service worker file
-        fs.writeFileSync(path.join(outDir, 'sw.js'), sw, 'utf8');
-        logger.info(
-            `${this.name}-plugin: service-worker generated → ${terminalPretty.underline(path.relative(process.cwd(), path.join(outDir, 'sw.js')))}`,
+        const dest = this.emitFile('sw.js', sw);
+        this.logger.info(
+            `service-worker generated → ${terminalPretty.underline(path.relative(process.cwd(), dest))}`,
         );
 
         const registerSnippet = `
 <script>
 if ('serviceWorker' in navigator) {
-  navigator.serviceWorker.register('sw.js')
+  navigator.serviceWorker.register('${publicUrl(cfg, 'sw.js')}', { scope: '${formatBasePath(cfg)}' })
     .then(reg=> console.log('SW registered', reg))
     .catch(err=> console.error('SW failed', err));
 }
 </script>
 </body>`;
 
-        const htmlFiles = await fg('**/*.html', {
-            cwd: outDir,
-            absolute: true,
-        });
-        for (const htmlPath of htmlFiles) {
-            let html = fs.readFileSync(htmlPath, 'utf8');
-            if (!html.includes('navigator.serviceWorker.register')) {
-                html = html.replace(/<\/body>/i, registerSnippet);
-                fs.writeFileSync(htmlPath, html, 'utf8');
-            }
+        const pages = await this.getPages();
+        for (const page of pages) {
+            const htmlPath = path.join(outDir, page);
+            if (!fs.existsSync(htmlPath)) continue;
+
+            const html = fs.readFileSync(htmlPath, 'utf8');
+            if (!html.includes('navigator.serviceWorker.register'))
+                this.emitFile(page, html.replace(/<\/body>/i, registerSnippet));
         }
 
-        logger.debug(
-            `${this.name}-plugin: injected service-worker registration into HTML pages → ${htmlFiles.join(', ')}`,
+        this.logger.debug(
+            `injected service-worker registration into HTML pages → ${pages.join(', ')}`,
         );
     },
 };
@@ -4,15 +4,14 @@ import path from 'path';
 import crypto from 'crypto';
 import fg from 'fast-glob';
 import { type MinimalifyPlugin } from '../typings.js';
-import { CSS_BUNDLE_NAME, JS_BUNDLE_NAME } from '@/utils/constants/bundle.js';
-import { logger } from '@/utils/logger.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
+import { assetUrl } from '@/utils/url.js';
 
 export const versionAssets: MinimalifyPlugin = {
     name: 'version-assets',
 
     async onPostBuild(cfg) {
-        logger.debug(`${this.name}-plugin: versioning assets`);
+        this.logger.debug('versioning assets');
         const manifest: Record<string, string> = {};
         const outDir = cfg.out_dir;
 
@@ -32,43 +31,73 @@ export const versionAssets: MinimalifyPlugin = {
                 .slice(0, 8);
             const ext = path.extname(bundleName);
             const base = path.basename(bundleName, ext);
-            const newName = `${base}.${hash}${ext}`;
-            fs.renameSync(full, path.join(outDir, subdir, newName));
-            manifest[`${subdir}/${bundleName}`] = `${subdir}/${newName}`;
+            const newName = path.posix.join(
+                path.posix.dirname(bundleName),
+                `${base}.${hash}${ext}`,
+            );
+            const dst = path.join(outDir, subdir, newName);
+
+            // the source map follows its bundle
+            const map = `${full}.map`;
+            if (fs.existsSync(map)) {
+                const json = JSON.parse(fs.readFileSync(map, 'utf8'));
+                json.file = path.basename(dst);
+                fs.writeFileSync(`${dst}.map`, JSON.stringify(json), 'utf8');
+                fs.rmSync(map);
+
+                fs.writeFileSync(
+                    full,
+                    data
+                        .toString('utf8')
+                        .replace(
+                            `sourceMappingURL=${path.basename(full)}.map`,
+                            `sourceMappingURL=${path.basename(dst)}.map`,
+                        ),
+                    'utf8',
+                );
+            }
+
+            fs.renameSync(full, dst);
+            manifest[`${subdir}/${bundleName}`] = assetUrl(
+                cfg,
+                `${subdir}/${newName}`,
+            );
         };
 
-        // Process CSS and JS
-        processFile('css', CSS_BUNDLE_NAME);
-        processFile('js', JS_BUNDLE_NAME);
+        // Process CSS and JS, including the split chunks & the bundles
+        // of the script groups
+        const bundles = await fg(['css/**/*.min.css', 'js/**/*.min.js'], {
+            cwd: outDir,
+            onlyFiles: true,
+        });
+        for (const bundle of bundles) {
+            const [subdir, ...rest] = bundle.split('/');
+            processFile(subdir ?? '', rest.join('/'));
+        }
 
         // Write manifest
-        const manifestPath = path.join(outDir, 'asset-manifest.json');
-        fs.writeFileSync(
-            manifestPath,
+        const manifestPath = this.emitFile(
+            'asset-manifest.json',
             JSON.stringify(manifest, null, 2),
-            'utf8',
         );
-        logger.info(
-            `${this.name}-plugin: asset manifest written to → ${terminalPretty.underline(path.relative(process.cwd(), manifestPath))}`,
+        this.logger.info(
+            `asset manifest written to → ${terminalPretty.underline(path.relative(process.cwd(), manifestPath))}`,
         );
 
         // Update HTML references
-        const htmlFiles = await fg('**/*.html', {
-            cwd: outDir,
-            absolute: true,
-        });
+        const pages = await this.getPages();
+        for (const page of pages) {
+            const htmlPath = path.join(outDir, page);
+            if (!fs.existsSync(htmlPath)) continue;
 
-        for (const htmlPath of htmlFiles) {
             let html = fs.readFileSync(htmlPath, 'utf8');
             for (const [orig, hashed] of Object.entries(manifest)) {
-                const re = new RegExp(escapeForRegex(orig), 'g');
+                const re = new RegExp(escapeForRegex(assetUrl(cfg, orig)), 'g');
                 html = html.replace(re, hashed);
             }
-            fs.writeFileSync(htmlPath, html, 'utf8');
+            this.emitFile(page, html);
         }
 
-        logger.debug(
-            `${this.name}-plugin: updated HTML files → ${htmlFiles.join(', ')}`,
-        );
+        this.logger.debug(`updated HTML files → ${pages.join(', ')}`);
     },
 };
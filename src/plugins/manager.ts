@@ -1,9 +1,249 @@
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
 import { type MinimalifyConfig } from '@/config/struct.js';
-import { type MinimalifyPlugin } from './typings.js';
+import {
+    type MinimalifyPlugin,
+    type MinimalifyPluginEntry,
+    type MinimalifyPluginSpecifier,
+    type PluginContext,
+    type PluginHook,
+    type PluginHookHandler,
+    type PluginHookKind,
+    type PostBundleResult,
+} from './typings.js';
+import { type SupportedPlugins } from '@/utils/constants/supported-plugins.js';
+import { dynamicImport, isLocalPath } from '@/utils/file.js';
 import { logError, logger } from '@/utils/logger.js';
 import { terminalPretty } from '@/lib/terminal-pretty.js';
 import { plugins } from './lib/index.js';
 import { PluginError } from '@/error/plugin-error.js';
+import { type ProcessorTree } from '@/manager/processor-tree.js';
+import { type BuildCache } from '@/cache-manager/build-cache.js';
+
+/**
+ * How a hook is called. Waterfall hooks fold the result of a plugin into
+ * the arguments of the next plugin, a plugin returning nothing keeps them.
+ */
+interface HookSpec {
+    kind: PluginHookKind;
+
+    // waterfall hooks: the arguments of the next plugin
+    thread?: (args: any[], result: any) => any[];
+
+    // waterfall hooks: the result of the hook, from the final arguments
+    result?: (args: any[]) => any;
+}
+
+/**
+ * Spec of a waterfall hook threading a single argument.
+ * @param index the index of the threaded argument
+ * @returns the hook spec
+ */
+const waterfall = (index: number): HookSpec => ({
+    kind: 'waterfall',
+    thread: (args, result) =>
+        args.map((arg, i) => (i === index ? result : arg)),
+    result: (args) => args[index],
+});
+
+// the hooks a plugin may implement
+const hookSpecs: Record<PluginHook, HookSpec> = {
+    onPreConfig: { kind: 'sequential' },
+    onPreBuild: { kind: 'sequential' },
+    onAsset: { kind: 'parallel' },
+    onBundle: waterfall(2),
+    onResolveImport: { kind: 'first' },
+    onPostBundle: {
+        kind: 'waterfall',
+        // the content & the source map of the bundle are threaded
+        thread: (
+            [cfg, type, content, map],
+            result: string | PostBundleResult,
+        ) =>
+            typeof result === 'string'
+                ? [cfg, type, result, map]
+                : [cfg, type, result.content ?? content, result.map ?? map],
+        result: ([, , content, map]): PostBundleResult => ({ content, map }),
+    },
+    onTemplate: waterfall(2),
+    onPage: waterfall(2),
+    onPreHtmlMinify: waterfall(1),
+    onPageWritten: { kind: 'parallel' },
+    onAssetWritten: { kind: 'parallel' },
+    onBuildError: { kind: 'sequential' },
+    onPostBuild: { kind: 'sequential' },
+    onDevStart: { kind: 'parallel' },
+    onFileChange: { kind: 'parallel' },
+};
+
+// the order of the enforce groups
+const enforceRank = { pre: 0, normal: 1, post: 2 };
+
+/**
+ * Check that a loaded module is a minimalify plugin.
+ *
+ * @param plugin The loaded plugin.
+ * @param source Where the plugin was loaded from.
+ * @returns The plugin.
+ * @throws {PluginError} If the plugin is not valid.
+ */
+const validatePlugin = (plugin: unknown, source: string): MinimalifyPlugin => {
+    if (typeof plugin !== 'object' || plugin === null)
+        throw new PluginError(
+            `plugin ${source} does not export a minimalify plugin object`,
+        );
+
+    const { name, optionsSchema } = plugin as Partial<MinimalifyPlugin>;
+    if (typeof name !== 'string' || name === '')
+        throw new PluginError(`plugin ${source} has no name`);
+
+    if (
+        optionsSchema !== undefined &&
+        (typeof optionsSchema !== 'object' || optionsSchema === null)
+    )
+        throw new PluginError(
+            `plugin ${name} has an invalid optionsSchema, expected a JSON schema object`,
+        );
+
+    const { apply, enforce, before, after } =
+        plugin as Partial<MinimalifyPlugin>;
+    if (apply !== undefined && !['build', 'dev', 'both'].includes(apply))
+        throw new PluginError(
+            `plugin ${name} has an invalid apply ${apply}, expected build, dev or both`,
+        );
+
+    if (enforce !== undefined && enforce !== 'pre' && enforce !== 'post')
+        throw new PluginError(
+            `plugin ${name} has an invalid enforce ${enforce}, expected pre or post`,
+        );
+
+    for (const [key, names] of Object.entries({ before, after }))
+        if (
+            names !== undefined &&
+            (!Array.isArray(names) ||
+                names.some((other) => typeof other !== 'string'))
+        )
+            throw new PluginError(
+                `plugin ${name} has an invalid ${key}, expected a list of plugin names`,
+            );
+
+    for (const hook of Object.keys(hookSpecs) as PluginHook[]) {
+        const fn = (plugin as Partial<MinimalifyPlugin>)[hook];
+        if (fn !== undefined && typeof fn !== 'function')
+            throw new PluginError(
+                `plugin ${name} has an invalid ${hook} hook, expected a function`,
+            );
+    }
+
+    return plugin as MinimalifyPlugin;
+};
+
+/**
+ * Split a plugin entry of the config into the plugin & its options.
+ *
+ * @param entry The plugin entry.
+ * @returns The plugin & its options, if any.
+ */
+export const splitPluginEntry = (
+    entry: MinimalifyPluginEntry,
+): [MinimalifyPluginSpecifier, Record<string, any> | undefined] =>
+    Array.isArray(entry) ? [entry[0], entry[1]] : [entry, undefined];
+
+/**
+ * Resolve a plugin of the config: a built-in plugin, a local file, an
+ * npm package or an inline plugin object.
+ *
+ * @param specifier The plugin.
+ * @returns The plugin.
+ * @throws {PluginError} If the plugin can't be loaded or is invalid.
+ */
+export const resolvePlugin = async (
+    specifier: MinimalifyPluginSpecifier,
+): Promise<MinimalifyPlugin> => {
+    if (typeof specifier !== 'string')
+        return validatePlugin(specifier, 'inline');
+
+    if (Object.prototype.hasOwnProperty.call(plugins, specifier))
+        return plugins[specifier as SupportedPlugins];
+
+    let modulePath: string;
+    try {
+        // packages are resolved from the project, not from minimalify
+        modulePath = isLocalPath(specifier)
+            ? specifier
+            : createRequire(path.join(process.cwd(), 'package.json')).resolve(
+                  specifier,
+              );
+    } catch {
+        throw new PluginError(
+            `plugin ${specifier} not found, it is neither a built-in plugin nor an installed package`,
+        );
+    }
+
+    let mod: { default?: unknown } | undefined;
+    try {
+        mod = await dynamicImport(modulePath);
+    } catch (e) {
+        throw new PluginError(
+            `failed to import plugin ${specifier}: ${(e as Error).message}`,
+        );
+    }
+
+    return validatePlugin(mod?.default ?? mod, specifier);
+};
+
+/**
+ * Order the plugins by their enforce group, then by their order in the
+ * config. The before & after constraints of the plugins win over both.
+ *
+ * @param loaded The loaded plugins, in the order of the config.
+ * @returns The ordered plugins.
+ * @throws {PluginError} If the before & after constraints are circular.
+ */
+const sortPlugins = (loaded: MinimalifyPlugin[]) => {
+    const base = loaded
+        .map((plugin, i) => ({ plugin, i }))
+        .sort(
+            (a, b) =>
+                enforceRank[a.plugin.enforce ?? 'normal'] -
+                    enforceRank[b.plugin.enforce ?? 'normal'] || a.i - b.i,
+        )
+        .map(({ plugin }) => plugin);
+
+    // plugin → the plugins it has to run after
+    const deps = new Map(
+        base.map((plugin) => [plugin, new Set<MinimalifyPlugin>()]),
+    );
+    const byName = (name: string) => base.filter((p) => p.name === name);
+    for (const plugin of base) {
+        for (const other of (plugin.after ?? []).flatMap(byName))
+            if (other !== plugin) deps.get(plugin)?.add(other);
+        for (const other of (plugin.before ?? []).flatMap(byName))
+            if (other !== plugin) deps.get(other)?.add(plugin);
+    }
+
+    // depth-first topological sort, a plugin pulls the plugins it has
+    // to run after right before it, the rest keeps the base order
+    const sorted: MinimalifyPlugin[] = [];
+    const visiting = new Set<MinimalifyPlugin>();
+    const visit = (plugin: MinimalifyPlugin) => {
+        if (sorted.includes(plugin)) return;
+        if (visiting.has(plugin))
+            throw new PluginError(
+                `circular before/after constraints between the plugins ${Array.from(visiting, (p) => p.name).join(', ')}`,
+            );
+
+        visiting.add(plugin);
+        for (const dep of base) if (deps.get(plugin)?.has(dep)) visit(dep);
+        visiting.delete(plugin);
+
+        sorted.push(plugin);
+    };
+    base.forEach(visit);
+
+    return sorted;
+};
 
 /**
  * MinimalifyPluginManager is a class that manages the loading and execution of plugins.
@@ -13,6 +253,27 @@ import { PluginError } from '@/error/plugin-error.js';
 export class MinimalifyPluginManager {
     private plugins: MinimalifyPlugin[] = [];
 
+    // plugin → the context its hooks are called with
+    private _contexts = new Map<MinimalifyPlugin, PluginContext>();
+
+    // files emitted by the plugins, relative to the out dir
+    private _emitted = new Set<string>();
+
+    private _tree?: ProcessorTree;
+
+    private _buildCache?: BuildCache;
+
+    /**
+     * MinimalifyPluginManager constructor
+     * @param tree the processor tree of the build, the plugins of the page
+     * workers have none and see no pages nor graph
+     * @param buildCache the build cache of the processors
+     */
+    constructor(tree?: ProcessorTree, buildCache?: BuildCache) {
+        this._tree = tree;
+        this._buildCache = buildCache;
+    }
+
     /**
      * Load plugins from the config file.
      *
@@ -20,27 +281,42 @@ export class MinimalifyPluginManager {
      * @returns void
      */
     async loadPlugins(config: MinimalifyConfig) {
-        if (process.env.MINIMALIFY_DEV === 'true') return;
-
         if (!config.plugins) {
             return;
         }
 
+        const mode = config.mode ?? 'build';
+
         const failedPlugins = [];
-        for (const plugin of config.plugins) {
+        for (const entry of config.plugins) {
+            const [specifier, options = {}] = splitPluginEntry(entry);
+            const label =
+                typeof specifier === 'string' ? specifier : specifier?.name;
             try {
-                const loadedPlugin = plugins[plugin];
+                // every entry gets its own instance, holding its options
+                const loadedPlugin = {
+                    ...(await resolvePlugin(specifier)),
+                    options,
+                };
 
-                if (!loadedPlugin) {
-                    failedPlugins.push(plugin);
-                    throw new PluginError(`plugin ${plugin} not found`);
+                const apply = loadedPlugin.apply ?? 'build';
+                if (apply !== 'both' && apply !== mode) {
+                    logger.debug(
+                        `skipping plugin ${loadedPlugin.name}, it does not apply to ${mode}`,
+                    );
+                    continue;
                 }
 
                 this.plugins.push(loadedPlugin);
+                this._contexts.set(
+                    loadedPlugin,
+                    this._createContext(config, loadedPlugin, mode),
+                );
                 logger.spinner.update(
-                    `loaded plugin ${terminalPretty.underline(plugin)}`,
+                    `loaded plugin ${terminalPretty.underline(loadedPlugin.name)}`,
                 );
             } catch (e) {
+                failedPlugins.push(label);
                 logError(e);
             }
         }
@@ -50,44 +326,152 @@ export class MinimalifyPluginManager {
             );
         }
 
+        this.plugins = sortPlugins(this.plugins);
+
         logger.info(
             `loaded plugins → ${this.plugins.map((plugin) => plugin.name).join(', ')}`,
         );
+    }
+
+    /**
+     * Create the context the hooks of a plugin are called with.
+     *
+     * @param config The config object.
+     * @param plugin The loaded plugin.
+     * @param mode Whether the plugins run in a build or the dev server.
+     * @returns The plugin context.
+     */
+    private _createContext(
+        config: MinimalifyConfig,
+        plugin: MinimalifyPlugin,
+        mode: PluginContext['mode'],
+    ): PluginContext {
+        const prefix = `${plugin.name}-plugin:`;
+        return {
+            name: plugin.name,
+            options: plugin.options ?? {},
+            mode,
+            logger: {
+                debug: (msg) => logger.debug(`${prefix} ${msg}`),
+                info: (msg) => logger.info(`${prefix} ${msg}`),
+                warn: (msg) => logger.warn(`${prefix} ${msg}`),
+                error: (msg) => logger.error(`${prefix} ${msg}`),
+            },
+            buildCache: this._buildCache,
+            emitFile: (relPath, contents) =>
+                this._emitFile(config, plugin, relPath, contents),
+            getPages: async () => {
+                const pages = new Set((await this._tree?.getAllPages()) ?? []);
+                for (const file of this._emitted)
+                    if (file.endsWith('.html')) pages.add(file);
+                return Array.from(pages).sort();
+            },
+            getEmittedFiles: () => Array.from(this._emitted).sort(),
+            getRouteDataFiles: async () =>
+                (await this._tree?.getRouteDataFiles()) ?? [],
+            getGraph: (filter) =>
+                this._tree?.getGraph(filter) ?? { nodes: [], edges: [] },
+        };
+    }
 
-        // make sure if spa build is enabled, i.e. in this.plugins
-        // it is always the last plugin
-        const spaPlugin = this.plugins.find((plugin) => plugin.name === 'spa');
-        if (spaPlugin) {
-            this.plugins = this.plugins.filter(
-                (plugin) => plugin.name !== 'spa',
+    /**
+     * Write a file emitted by a plugin to the out dir.
+     *
+     * @param config The config object.
+     * @param plugin The plugin emitting the file.
+     * @param relPath The path of the file, relative to the out dir.
+     * @param contents The contents of the file.
+     * @returns The absolute path of the written file.
+     * @throws {PluginError} If the path is outside of the out dir.
+     */
+    private _emitFile(
+        config: MinimalifyConfig,
+        plugin: MinimalifyPlugin,
+        relPath: string,
+        contents: string | Buffer,
+    ) {
+        const outDir = path.resolve(config.out_dir);
+        const dst = path.resolve(outDir, relPath);
+        const rel = path.relative(outDir, dst);
+        if (rel === '' || rel.startsWith('..') || path.isAbsolute(rel))
+            throw new PluginError(
+                `plugin ${plugin.name} can't emit ${relPath}, it is outside of the out dir`,
             );
-            this.plugins.push(spaPlugin);
-        }
+
+        fs.mkdirSync(path.dirname(dst), { recursive: true });
+        fs.writeFileSync(dst, contents);
+        this._emitted.add(rel.split(path.sep).join('/'));
+
+        logger.debug(`${plugin.name}-plugin: emitted ${rel}`);
+        return dst;
+    }
+
+    /**
+     * Check if the config has inline plugins, which can't be sent to the
+     * page workers.
+     *
+     * @param config The config object that contains the plugins.
+     * @returns true if any plugin is an inline plugin object
+     */
+    static hasInlinePlugins(config: MinimalifyConfig) {
+        return (config.plugins ?? []).some(
+            (entry) => typeof splitPluginEntry(entry)[0] !== 'string',
+        );
     }
 
     /**
-     * Call a hook on all loaded plugins.
+     * Call a hook on all loaded plugins, in their order. The hooks are
+     * called with the context of their plugin as `this`. The results are
+     * combined according to the kind of the hook.
      *
      * @param hook The name of the hook to call.
      * @param args The arguments to pass to the hook.
-     * @returns void
+     * @returns the threaded value for waterfall hooks, the first result
+     * for first hooks, void otherwise
      */
-    async callHook<K extends keyof MinimalifyPlugin>(
+    async callHook<K extends PluginHook>(
         hook: K,
         ...args: Parameters<Extract<MinimalifyPlugin[K], (...args: any) => any>>
     ): Promise<ReturnType<
         Extract<MinimalifyPlugin[K], (...args: any) => any>
     > | void> {
-        if (process.env.MINIMALIFY_DEV === 'true') return;
-        let result: any = undefined;
-        for (const plugin of this.plugins) {
-            if (plugin[hook] && typeof plugin[hook] === 'function') {
-                // eslint-disable-next-line @typescript-eslint/no-unsafe-function-type
-                result = await (plugin[hook] as Function)(
-                    ...(Array.isArray(result) ? result : args),
+        const spec = hookSpecs[hook];
+        const handlers = this.plugins.flatMap((plugin) => {
+            const fn: PluginHookHandler | undefined = plugin[hook];
+            const context = this._contexts.get(plugin);
+            return fn && context ? [{ fn, context }] : [];
+        });
+        const call = (
+            { fn, context }: (typeof handlers)[number],
+            callArgs: unknown[],
+        ) => fn.apply(context, callArgs);
+
+        switch (spec.kind) {
+            case 'parallel':
+                await Promise.all(
+                    handlers.map((handler) => call(handler, args)),
                 );
+                return;
+
+            case 'first':
+                for (const handler of handlers) {
+                    const result = await call(handler, args);
+                    if (result !== undefined) return result as any;
+                }
+                return;
+
+            case 'waterfall': {
+                let current: unknown[] = args;
+                for (const handler of handlers) {
+                    const result = await call(handler, current);
+                    if (result !== undefined && spec.thread)
+                        current = spec.thread(current, result);
+                }
+                return spec.result?.(current);
             }
+
+            default:
+                for (const handler of handlers) await call(handler, args);
         }
-        return result;
     }
 }
@@ -1,43 +1,170 @@
 import { type MinimalifyConfig } from '@/config/struct.js';
 import { type SupportedPlugins } from '@/utils/constants/supported-plugins.js';
 import { type DefaultTreeAdapterMap } from 'parse5';
+import { type SchemaObject } from 'ajv';
+import {
+    type GraphExport,
+    type GraphFilter,
+} from '@/manager/processor-tree.js';
+import { type BuildCache } from '@/cache-manager/build-cache.js';
+
+/**
+ * Result of the post-bundle hook when the source map is updated too.
+ */
+export interface PostBundleResult {
+    content: string;
+    map?: string;
+}
+
+/**
+ * The logger of a plugin, prefixing the messages with the plugin name.
+ */
+export interface PluginLogger {
+    debug: (msg: string) => void;
+    info: (msg: string) => void;
+    warn: (msg: string) => void;
+    error: (msg: string) => void;
+}
+
+/**
+ * The context the hooks of a plugin are called with, as `this`. The
+ * pages & the graph are those of the build, the hooks running in the
+ * page workers only see the files they emitted.
+ */
+export interface PluginContext<O extends object = Record<string, any>> {
+    // the name of the plugin
+    name: string;
+
+    // the options given to the plugin in the config
+    options: Partial<O>;
+
+    // whether the hook runs in a production build or the dev server
+    mode: 'build' | 'dev';
+
+    // logger scoped to the plugin
+    logger: PluginLogger;
+
+    // the build cache of the processors, to reuse the outputs of the
+    // plugins across builds
+    buildCache?: BuildCache;
+
+    /**
+     * Write a file to the out dir, visible to the later plugins.
+     * @param relPath the path of the file, relative to the out dir
+     * @param contents the contents of the file
+     * @returns the absolute path of the written file
+     */
+    emitFile: (relPath: string, contents: string | Buffer) => string;
+
+    /**
+     * Get the html pages of the site, relative to the out dir, including
+     * the pages emitted by the plugins.
+     */
+    getPages: () => Promise<string[]>;
+
+    /**
+     * Get the files emitted by the plugins, relative to the out dir.
+     */
+    getEmittedFiles: () => string[];
+
+    /**
+     * Get the markdown files the route collections read as data, relative
+     * to the src dir. They are no pages of their own.
+     */
+    getRouteDataFiles: () => Promise<string[]>;
+
+    /**
+     * Get the dependency graph of the build.
+     * @param filter keep the subtree of a node or the nodes affected by it
+     */
+    getGraph: (filter?: GraphFilter) => GraphExport;
+}
 
 /**
  * Core plugin interface. Plugins can hook into every major step.
  */
-export interface MinimalifyPlugin {
-    name: SupportedPlugins;
+export interface MinimalifyPlugin<O extends object = Record<string, any>> {
+    name: string;
+
+    /** the options given to the plugin in the config, as `this.options` */
+    options?: Partial<O>;
+
+    /** JSON schema the options are validated against */
+    optionsSchema?: SchemaObject;
+
+    /** run in production builds (default), the dev server or both */
+    apply?: 'build' | 'dev' | 'both';
+
+    /** run before (`pre`) or after (`post`) the other plugins */
+    enforce?: 'pre' | 'post';
 
-    /** mutate config before anything runs */
-    onPreConfig?: (cfg: MinimalifyConfig) => Promise<void> | void;
+    /** names of the plugins this plugin has to run before */
+    before?: string[];
 
-    /** after config is loaded but before build starts */
-    onPreBuild?: (cfg: MinimalifyConfig) => Promise<void> | void;
+    /** names of the plugins this plugin has to run after */
+    after?: string[];
 
-    /** before each asset download/copy */
+    /** mutate config before anything runs, sequential */
+    onPreConfig?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+    ) => Promise<void> | void;
+
+    /** after config is loaded but before build starts, sequential */
+    onPreBuild?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+    ) => Promise<void> | void;
+
+    /** before each asset download/copy, parallel */
     onAsset?: (
+        this: PluginContext<O>,
         cfg: MinimalifyConfig,
         type: 'css' | 'js' | 'image',
         src: string,
         dest: string,
     ) => Promise<void> | void;
 
-    /** before bundling CSS/JS */
+    /** before bundling CSS/JS, waterfall on the inputs */
     onBundle?: (
+        this: PluginContext<O>,
         cfg: MinimalifyConfig,
         type: 'css' | 'js',
         inputs: string[],
     ) => Promise<string[]> | string[];
 
-    /** after bundling, before writing to disk */
+    /**
+     * resolve an import of a js module to the absolute path of its file,
+     * e.g. a bare import. first: the first path returned is used, the
+     * relative imports resolve on their own when no plugin returns one
+     */
+    onResolveImport?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+        source: string,
+        importer: string,
+    ) => Promise<string | undefined> | string | undefined;
+
+    /** after bundling, before writing to disk, waterfall on the content */
     onPostBundle?: (
+        this: PluginContext<O>,
         cfg: MinimalifyConfig,
         type: 'css' | 'js',
         content: string,
+        map?: string,
+    ) => Promise<string | PostBundleResult> | string | PostBundleResult;
+
+    /** after a template is expanded, waterfall on the html */
+    onTemplate?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+        name: string,
+        html: string,
     ) => Promise<string> | string;
 
-    /** on each page AST, before html rewrite */
+    /** on each page AST, before html rewrite, waterfall on the doc */
     onPage?: (
+        this: PluginContext<O>,
         cfg: MinimalifyConfig,
         pagePath: string,
         doc: DefaultTreeAdapterMap['element'],
@@ -45,19 +172,95 @@ export interface MinimalifyPlugin {
         | Promise<DefaultTreeAdapterMap['element']>
         | DefaultTreeAdapterMap['element'];
 
-    /** after HTML is serialized, before minify */
+    /** after HTML is serialized, before minify, waterfall on the html */
     onPreHtmlMinify?: (
+        this: PluginContext<O>,
         cfg: MinimalifyConfig,
         html: string,
     ) => Promise<string> | string;
 
-    /** after full build is done */
-    onPostBuild?: (cfg: MinimalifyConfig) => Promise<void> | void;
+    /** after a page is written to the out dir, parallel */
+    onPageWritten?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+        relPath: string,
+        html: string,
+    ) => Promise<void> | void;
+
+    /** after a bundle or an asset is written to the out dir, parallel */
+    onAssetWritten?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+        type: 'css' | 'js' | 'image' | 'font',
+        outPath: string,
+    ) => Promise<void> | void;
+
+    /** when the build fails, before the error is thrown, sequential */
+    onBuildError?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+        error: Error,
+    ) => Promise<void> | void;
+
+    /** after full build is done, sequential */
+    onPostBuild?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+    ) => Promise<void> | void;
 
-    /** dev server hooks */
-    onDevStart?: (cfg: MinimalifyConfig) => Promise<void> | void;
+    /** dev server hooks, parallel */
+    onDevStart?: (
+        this: PluginContext<O>,
+        cfg: MinimalifyConfig,
+    ) => Promise<void> | void;
     onFileChange?: (
+        this: PluginContext<O>,
         cfg: MinimalifyConfig,
         file: string,
     ) => Promise<void> | void;
 }
+
+/**
+ * The names of the hooks a plugin may implement.
+ */
+export type PluginHook = {
+    [K in keyof MinimalifyPlugin]-?: NonNullable<MinimalifyPlugin[K]> extends (
+        ...args: any[]
+    ) => any
+        ? K
+        : never;
+}[keyof MinimalifyPlugin];
+
+/**
+ * A hook of any name, called with the context of its plugin.
+ */
+export type PluginHookHandler = (
+    this: PluginContext,
+    ...args: any[]
+) => unknown;
+
+/**
+ * How the results of a hook are combined across the plugins:
+ * - sequential: the plugins run one after another, results are ignored
+ * - parallel: the plugins run at the same time, results are ignored
+ * - first: the plugins run one after another until one returns a result
+ * - waterfall: the result of a plugin is passed on to the next one
+ */
+export type PluginHookKind = 'sequential' | 'parallel' | 'first' | 'waterfall';
+
+/**
+ * A plugin of the config: the name of a built-in plugin, an npm package,
+ * a local file path or an inline plugin object.
+ */
+export type MinimalifyPluginSpecifier =
+    | SupportedPlugins
+    | (string & {})
+    | MinimalifyPlugin;
+
+/**
+ * A plugin entry of the config, either a plugin or a tuple of a plugin
+ * & its options, e.g. `['sitemap', { changefreq: 'weekly' }]`.
+ */
+export type MinimalifyPluginEntry =
+    | MinimalifyPluginSpecifier
+    | [MinimalifyPluginSpecifier, Record<string, any>];
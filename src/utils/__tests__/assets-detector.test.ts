@@ -0,0 +1,40 @@
+import { parseFragment, type DefaultTreeAdapterMap } from 'parse5';
+import {
+    formatScriptBundleName,
+    getScriptGroup,
+} from '@/utils/assets-detector.js';
+
+/**
+ * Parse a script tag.
+ * @param html the html of the tag
+ * @returns the script element
+ */
+const parseScript = (html: string) =>
+    parseFragment(html).childNodes[0] as DefaultTreeAdapterMap['element'];
+
+describe('getScriptGroup', () => {
+    it.each([
+        ['<script src="a.js"></script>', 'classic-sync'],
+        ['<script defer src="a.js"></script>', 'classic-defer'],
+        ['<script async src="a.js"></script>', 'classic-async'],
+        ['<script type="module" src="a.js"></script>', 'module-defer'],
+        ['<script type="module" async src="a.js"></script>', 'module-async'],
+        ['<script nomodule src="a.js"></script>', 'nomodule-sync'],
+    ])('groups %s as %s', (html, group) => {
+        expect(getScriptGroup(parseScript(html))).toBe(group);
+    });
+});
+
+describe('formatScriptBundleName', () => {
+    it('names the bundle of a group after it', () => {
+        expect(formatScriptBundleName('bundle.min.js', 'module-async')).toBe(
+            'bundle.module-async.min.js',
+        );
+    });
+
+    it('keeps the name of the default group', () => {
+        expect(formatScriptBundleName('bundle.min.js', 'classic-defer')).toBe(
+            'bundle.min.js',
+        );
+    });
+});
@@ -0,0 +1,46 @@
+import { getDataRefs, parseCsv } from '@/utils/data.js';
+
+describe('parseCsv', () => {
+    it('keys the records by the header row', () => {
+        expect(parseCsv('name, role\nann,dev\nbo,ops\n')).toEqual([
+            { name: 'ann', role: 'dev' },
+            { name: 'bo', role: 'ops' },
+        ]);
+    });
+
+    it('reads the quoted fields with their commas, quotes & newlines', () => {
+        expect(parseCsv('name,bio\n"Doe, Ann","says ""hi""\ntwice"\n')).toEqual(
+            [{ name: 'Doe, Ann', bio: 'says "hi"\ntwice' }],
+        );
+    });
+
+    it('splits the rows on CRLF', () => {
+        expect(parseCsv('a,b\r\n1,2\r\n3,4')).toEqual([
+            { a: '1', b: '2' },
+            { a: '3', b: '4' },
+        ]);
+    });
+
+    it('keeps the CRLF of a quoted field', () => {
+        expect(parseCsv('a\r\n"x\r\ny"\r\n')).toEqual([{ a: 'x\r\ny' }]);
+    });
+
+    it('skips the blank lines & fills the missing fields', () => {
+        expect(parseCsv('a,b\n\n1\n\n')).toEqual([{ a: '1', b: '' }]);
+    });
+});
+
+describe('getDataRefs', () => {
+    it('gets the key paths a source reads', () => {
+        expect(
+            getDataRefs(
+                '{{#each site.data.team as m}}{{m.name}}{{/each}} {{site.data.nav.main}} {{site.data.team}}',
+            ),
+        ).toEqual(['team', 'nav.main']);
+    });
+
+    it('gets an empty key path for the whole data', () => {
+        expect(getDataRefs('<script>{{{site.data}}}</script>')).toEqual(['']);
+        expect(getDataRefs('{{site.title}}')).toEqual([]);
+    });
+});
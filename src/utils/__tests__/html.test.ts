@@ -0,0 +1,72 @@
+import { type DefaultTreeAdapterMap, parseFragment, serialize } from 'parse5';
+import { collectSlots, forwardAttrs, mergeAttrs } from '@/utils/html.js';
+
+/**
+ * Parse the first element of an html fragment.
+ * @param html the html
+ * @returns the element
+ */
+const parseElement = (html: string) =>
+    parseFragment(html).childNodes[0] as DefaultTreeAdapterMap['element'];
+
+describe('collectSlots', () => {
+    it('collects the marked children by slot & the others as default', () => {
+        const node = parseElement(
+            '<include-card><h2 slot="header" class="t">a</h2>text<p>b</p><i slot="header">c</i></include-card>',
+        );
+
+        expect(collectSlots(node)).toEqual({
+            header: '<h2 class="t">a</h2><i>c</i>',
+            default: 'text<p>b</p>',
+        });
+    });
+
+    it('gives an empty default slot to an empty include', () => {
+        expect(
+            collectSlots(parseElement('<include-card></include-card>')),
+        ).toEqual({ default: '' });
+    });
+});
+
+describe('mergeAttrs', () => {
+    it('merges the class & style, replaces the other attributes', () => {
+        const node = parseElement(
+            '<div class="card wide" style="color: red;" id="a"></div>',
+        );
+
+        mergeAttrs(node, [
+            { name: 'class', value: 'wide promo' },
+            { name: 'style', value: 'margin: 0' },
+            { name: 'id', value: 'b' },
+            { name: 'data-track', value: 'x' },
+        ]);
+
+        expect(node.attrs).toEqual([
+            { name: 'class', value: 'card wide promo' },
+            { name: 'style', value: 'color: red; margin: 0' },
+            { name: 'id', value: 'b' },
+            { name: 'data-track', value: 'x' },
+        ]);
+    });
+});
+
+describe('forwardAttrs', () => {
+    const attrs = [{ name: 'id', value: 'promo' }];
+
+    it('forwards onto the single root element of a fragment', () => {
+        const fragment = parseFragment('\n<!-- card -->\n<div></div>\n');
+
+        expect(forwardAttrs(fragment, attrs)).toBe(true);
+        expect(serialize(fragment)).toBe(
+            '\n<!-- card -->\n<div id="promo"></div>\n',
+        );
+    });
+
+    it('rejects a fragment without a single root element', () => {
+        expect(forwardAttrs(parseFragment('<p></p><p></p>'), attrs)).toBe(
+            false,
+        );
+        expect(forwardAttrs(parseFragment('text'), attrs)).toBe(false);
+        expect(forwardAttrs(parseFragment('text'), [])).toBe(true);
+    });
+});
@@ -0,0 +1,55 @@
+import { type DefaultTreeAdapterMap, parse, serialize } from 'parse5';
+import { applyLayoutToHtml, takeLayout } from '@/utils/layout.js';
+
+/**
+ * Parse an html document.
+ * @param html the html
+ * @returns the document
+ */
+const parseDoc = (html: string) =>
+    parse(html) as unknown as DefaultTreeAdapterMap['element'];
+
+describe('takeLayout', () => {
+    it('takes the layout out of the page', () => {
+        const doc = parseDoc(
+            '<html layout="docs"><head><meta name="minimalify:layout" content=" blog "></head></html>',
+        );
+
+        // the meta wins over the attribute
+        expect(takeLayout(doc)).toBe('blog');
+        expect(serialize(doc)).toBe('<html><head></head><body></body></html>');
+    });
+
+    it('gives no layout to a page without one', () => {
+        expect(takeLayout(parseDoc('<html layout=""></html>'))).toBeUndefined();
+        expect(takeLayout(parseDoc('<p></p>'))).toBeUndefined();
+    });
+});
+
+describe('applyLayoutToHtml', () => {
+    const file = 'layouts/base.html';
+
+    it('replaces the keyed head entries & appends the others', () => {
+        const html = applyLayoutToHtml(
+            '<html><head><title>Page</title><meta property="og:title" content="page"><link rel="icon" href="b.ico"></head><body></body></html>',
+            '<html><head><title>Base</title><meta property="og:title" content="base"><link rel="icon" href="a.ico"></head><body>{{children}}</body></html>',
+            { file },
+        );
+
+        expect(html).toBe(
+            '<html><head><link rel="icon" href="a.ico"><title>Page</title><meta property="og:title" content="page"><link rel="icon" href="b.ico"></head><body></body></html>',
+        );
+    });
+
+    it('fills the params of the layout', () => {
+        const html = applyLayoutToHtml(
+            '<html><head></head><body><p>a</p></body></html>',
+            '<html><head></head><body><h1>{{site}}</h1>{{children}}{{children}}</body></html>',
+            { file, data: { site: 'docs' } },
+        );
+
+        expect(html).toBe(
+            '<html><head></head><body><h1>docs</h1><p>a</p><p>a</p></body></html>',
+        );
+    });
+});
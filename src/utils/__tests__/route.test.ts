@@ -0,0 +1,109 @@
+import { DataError } from '@/error/data-error.js';
+import { type MinimalifyConfig } from '@/config/struct.js';
+import {
+    formatRoutePage,
+    getRouteRecords,
+    isRouteFile,
+} from '@/utils/route.js';
+
+describe('formatRoutePage', () => {
+    it('fills the params of the route with the record', () => {
+        expect(
+            formatRoutePage('shop/[category]/[slug].html', {
+                category: 'lamps',
+                slug: 42,
+            }),
+        ).toEqual({
+            page: 'shop/lamps/42.html',
+            params: { category: 'lamps', slug: '42' },
+        });
+    });
+
+    it.each([['..'], ['.'], ['../secret'], ['a/b'], ['a\\b'], ['  ']])(
+        'rejects the segment %j escaping its folder',
+        (slug) => {
+            expect(() =>
+                formatRoutePage('posts/[slug].html', { slug }),
+            ).toThrow(DataError);
+        },
+    );
+
+    it('rejects a record without a value for a param', () => {
+        expect(() =>
+            formatRoutePage('posts/[slug].html', { slug: { a: 1 } }),
+        ).toThrow('a record of the route posts/[slug].html has no valid slug');
+    });
+});
+
+describe('isRouteFile', () => {
+    it.each([
+        ['products/[slug].html', true],
+        ['[lang]/index.html', true],
+        ['products/lamp.html', false],
+        ['docs/[draft.html', false],
+    ])('checks %s', (page, expected) => {
+        expect(isRouteFile(page)).toBe(expected);
+    });
+});
+
+describe('getRouteRecords', () => {
+    const cfg = { src_dir: 'src' } as MinimalifyConfig;
+    const site = {
+        data: {
+            shop: {
+                products: [{ slug: 'lamp' }, { slug: 'desk' }],
+                owners: { ann: { role: 'ceo' } },
+            },
+            title: 'shop',
+        },
+        files: {
+            'shop.products': 'data/shop/products.json',
+            'shop.owners': 'data/shop/owners.yaml',
+            title: 'data/title.json',
+        },
+    };
+
+    it('reads the records & the data files of a key', async () => {
+        expect(
+            await getRouteRecords(cfg, 'p/[slug].html', 'shop.products', site),
+        ).toEqual([
+            {
+                record: { slug: 'lamp' },
+                dependencies: ['data:data/shop/products.json'],
+            },
+            {
+                record: { slug: 'desk' },
+                dependencies: ['data:data/shop/products.json'],
+            },
+        ]);
+    });
+
+    it('lists the records keyed by their slug with their key', async () => {
+        const records = await getRouteRecords(
+            cfg,
+            'o/[key].html',
+            'shop',
+            site,
+        );
+
+        expect(records).toHaveLength(2);
+        expect(records[1]).toEqual({
+            record: { key: 'owners', ann: { role: 'ceo' } },
+            dependencies: [
+                'data:data/shop/products.json',
+                'data:data/shop/owners.yaml',
+            ],
+        });
+    });
+
+    it.each([['title'], ['missing'], ['shop.products.0.slug']])(
+        'rejects the key %s holding no records',
+        async (source) => {
+            await expect(
+                getRouteRecords(cfg, 'p/[slug].html', source, site),
+            ).rejects.toThrow(
+                `data ${source} of the route p/[slug].html is not a list of records`,
+            );
+        },
+    );
+});
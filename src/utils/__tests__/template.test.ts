@@ -0,0 +1,286 @@
+import { jest } from '@jest/globals';
+import { TemplateError } from '@/error/template-error.js';
+import { logger } from '@/utils/logger.js';
+import {
+    parseTemplate,
+    renderTemplate,
+    renderTemplateTags,
+} from '@/utils/template.js';
+
+const file = 'page.html';
+
+/**
+ * Get the error a render throws.
+ * @param fn the render
+ * @returns the thrown error
+ */
+const thrown = (fn: () => unknown) => {
+    try {
+        fn();
+    } catch (e) {
+        return e as Error;
+    }
+    throw new Error('expected the render to throw');
+};
+
+beforeEach(() => {
+    // the template errors log their code frame
+    jest.spyOn(logger, 'errorWithFrame').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe('parseTemplate', () => {
+    it('nests the blocks in the branch they are opened in', () => {
+        const { nodes } = parseTemplate(
+            '{{#if a}}{{#each items as item}}{{item}}{{else}}none{{/each}}{{else}}no{{/if}}',
+            file,
+        );
+
+        expect(nodes).toHaveLength(1);
+        const [block] = nodes;
+        expect(block).toMatchObject({
+            type: 'if',
+            path: 'a',
+            else: [{ type: 'text', value: 'no' }],
+        });
+        expect(block?.type === 'if' && block.then).toMatchObject([
+            {
+                type: 'each',
+                path: 'items',
+                alias: 'item',
+                then: [{ type: 'var', path: 'item' }],
+                else: [{ type: 'text', value: 'none' }],
+            },
+        ]);
+    });
+
+    it('leaves the props declaration out of the nodes', () => {
+        const { props, nodes } = parseTemplate(
+            '<!-- props: {"title": {"required": true}} -->{{title}}',
+            file,
+        );
+
+        expect(props).toEqual({ title: { required: true } });
+        expect(nodes).toEqual([
+            { type: 'var', path: 'title', raw: false, start: 45 },
+        ]);
+    });
+
+    it('keeps the client-side expressions as text', () => {
+        const { nodes } = parseTemplate('{{ a + b }}', file);
+        expect(nodes).toEqual([{ type: 'text', value: '{{ a + b }}' }]);
+    });
+
+    it('reports an unclosed block at its opening tag', () => {
+        const error = thrown(() =>
+            parseTemplate('<ul>\n  {{#each items as item}}\n<li></li>', file),
+        );
+
+        expect(error).toBeInstanceOf(TemplateError);
+        expect(error.message).toBe(
+            'page.html:2:3 {{#each items}} is never closed',
+        );
+    });
+
+    it('reports a block closed by the wrong tag', () => {
+        const error = thrown(() => parseTemplate('{{#if a}}\n{{/each}}', file));
+
+        expect(error.message).toBe(
+            'page.html:2:1 {{/each}} closes {{#if a}}, expected {{/if}}',
+        );
+    });
+
+    it('reports an {{else}} outside of a block', () => {
+        const error = thrown(() => parseTemplate('a {{else}}', file));
+        expect(error.message).toBe(
+            'page.html:1:3 {{else}} outside of an {{#if}} or {{#each}}',
+        );
+    });
+
+    it('reports a duplicate {{else}}', () => {
+        const error = thrown(() =>
+            parseTemplate('{{#if a}}{{else}}{{else}}{{/if}}', file),
+        );
+        expect(error.message).toBe(
+            'page.html:1:18 duplicate {{else}} in {{#if a}}',
+        );
+    });
+});
+
+describe('renderTemplate', () => {
+    it('renders the then & else branches of an {{#if}}', () => {
+        const source = '{{#if ok}}yes{{else}}no{{/if}}';
+
+        expect(renderTemplate(source, { ok: true }, { file })).toBe('yes');
+        expect(renderTemplate(source, { ok: 'false' }, { file })).toBe('no');
+        expect(renderTemplate(source, { ok: [] }, { file })).toBe('no');
+    });
+
+    it('renders the items of an {{#each}} or its else branch', () => {
+        const source =
+            '{{#each items as item}}{{@index}}:{{item.name}} {{else}}empty{{/each}}';
+
+        expect(
+            renderTemplate(
+                source,
+                { items: [{ name: 'a' }, { name: 'b' }] },
+                { file },
+            ),
+        ).toBe('0:a 1:b ');
+        expect(renderTemplate(source, { items: [] }, { file })).toBe('empty');
+    });
+
+    it('renders the nested blocks with the scope of their loop', () => {
+        const source =
+            '{{#each rows as row}}{{#each row.cells as cell}}{{#if cell}}{{cell}}{{else}}-{{/if}}{{/each}};{{/each}}';
+
+        expect(
+            renderTemplate(
+                source,
+                {
+                    rows: [{ cells: ['a', ''] }, { cells: ['b', 'c'] }],
+                },
+                { file },
+            ),
+        ).toBe('a-;bc;');
+    });
+
+    it('escapes the variables unless they are raw', () => {
+        expect(
+            renderTemplate('{{v}} {{{v}}}', { v: '<b>x</b>' }, { file }),
+        ).toBe('&lt;b&gt;x&lt;/b&gt; <b>x</b>');
+    });
+
+    it('keeps the unknown variables & blocks of a partial render', () => {
+        expect(
+            renderTemplate(
+                '{{known}} {{unknown}} {{#if later}}x{{else}}y{{/if}}',
+                { known: 'k' },
+                { file, partial: true },
+            ),
+        ).toBe('k {{unknown}} {{#if later}}x{{else}}y{{/if}}');
+    });
+
+    it('reports an {{#each}} given something else than a list', () => {
+        const error = thrown(() =>
+            renderTemplate(
+                'a\nb {{#each items as item}}{{/each}}',
+                { items: 1 },
+                { file },
+            ),
+        );
+
+        expect(error).toBeInstanceOf(TemplateError);
+        expect(error.message).toBe(
+            'page.html:2:3 {{#each items}} expects a list, got 1',
+        );
+    });
+});
+
+describe('template props', () => {
+    const source =
+        '<!-- props: {"title": {"required": true}, "count": "number", "open": {"type": "boolean", "default": false}, "tags": {"type": "array", "default": []}} -->' +
+        '{{title}} {{count}} {{#if open}}open{{/if}}{{#each tags as tag}} #{{tag}}{{/each}}';
+
+    it('converts the attributes to their type & fills the defaults', () => {
+        expect(
+            renderTemplate(
+                source,
+                { title: 'a', count: '2', open: '', tags: '["x","y"]' },
+                { file },
+            ),
+        ).toBe('a 2 open #x #y');
+        expect(renderTemplate(source, { title: 'a' }, { file })).toBe('a  ');
+    });
+
+    it('reports a missing required prop at the include', () => {
+        const error = thrown(() =>
+            renderTemplate(
+                source,
+                {},
+                {
+                    file: 'card.html',
+                    site: {
+                        file,
+                        source: '<p>\n  <include-card></include-card>',
+                        line: 2,
+                        column: 3,
+                    },
+                },
+            ),
+        );
+
+        expect(error).toBeInstanceOf(TemplateError);
+        expect(error.message).toBe(
+            'page.html:2:3 missing required prop title of card.html',
+        );
+        expect(logger.errorWithFrame).toHaveBeenCalledWith(
+            error,
+            '<p>\n  <include-card></include-card>',
+            { start: expect.objectContaining({ line: 2, column: 3 }) },
+        );
+    });
+
+    it.each([
+        ['count', 'many', 'a number, got "many"'],
+        ['open', 'yes', 'a boolean, got "yes"'],
+        ['tags', '{"a":1}', 'an array, got "{\\"a\\":1}"'],
+    ])('reports the invalid %s prop', (name, value, expected) => {
+        const error = thrown(() =>
+            renderTemplate(
+                source,
+                { title: 'a', [name]: value },
+                {
+                    file: 'card.html',
+                },
+            ),
+        );
+
+        expect(error).toBeInstanceOf(TemplateError);
+        expect(error.message).toBe(
+            `card.html:1:1 invalid prop ${name} of card.html, expected ${expected}`,
+        );
+    });
+
+    it('reports an invalid props declaration', () => {
+        expect(() =>
+            parseTemplate('<!-- props: {"a": "date"} -->', file),
+        ).toThrow(
+            'invalid type date of the prop a, expected one of string, number, boolean, array, object',
+        );
+    });
+});
+
+describe('renderTemplateTags', () => {
+    const data = { site: { data: { team: [{ name: 'a' }, { name: 'b' }] } } };
+
+    it('only renders the tags reading the variable', () => {
+        expect(
+            renderTemplateTags(
+                '{{#each site.data.team as m}}{{m.name}}{{/each}} {{#each items}}{{name}}{{/each}}',
+                'site.data',
+                data,
+                { file },
+            ),
+        ).toBe('ab {{#each items}}{{name}}{{/each}}');
+    });
+
+    it('reports an unclosed block at its position in the source', () => {
+        const error = thrown(() =>
+            renderTemplateTags(
+                '<ul>\n  {{#each site.data.team as m}}<li>{{m.name}}</li>',
+                'site.data',
+                data,
+                { file },
+            ),
+        );
+
+        expect(error).toBeInstanceOf(TemplateError);
+        expect(error.message).toBe(
+            'page.html:2:3 {{#each site.data.team}} is never closed',
+        );
+    });
+});
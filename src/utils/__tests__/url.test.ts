@@ -0,0 +1,62 @@
+import { type MinimalifyConfig } from '@/config/struct.js';
+import { assetUrl, formatBasePath, publicUrl } from '@/utils/url.js';
+
+/**
+ * Create the url fields of a config.
+ * @param cfg the url fields
+ * @returns the config
+ */
+const createConfig = (cfg: Partial<MinimalifyConfig>) =>
+    cfg as MinimalifyConfig;
+
+describe('formatBasePath', () => {
+    it.each([
+        [undefined, '/'],
+        ['', '/'],
+        ['docs', '/docs/'],
+        ['/docs', '/docs/'],
+        ['//docs/v1//', '/docs/v1/'],
+    ])('formats %p as %p', (basePath, expected) => {
+        expect(formatBasePath(createConfig({ base_path: basePath }))).toBe(
+            expected,
+        );
+    });
+});
+
+describe('publicUrl', () => {
+    it('prefixes the path with the base path', () => {
+        const cfg = createConfig({ base_path: '/docs/' });
+
+        expect(publicUrl(cfg, 'blog/post.html')).toBe('/docs/blog/post.html');
+        expect(publicUrl(cfg, '/index.html')).toBe('/docs/index.html');
+    });
+});
+
+describe('assetUrl', () => {
+    it('serves the assets from the asset prefix', () => {
+        const cfg = createConfig({
+            base_path: '/docs/',
+            asset_prefix: 'https://cdn.example.com/site',
+        });
+
+        expect(assetUrl(cfg, 'css/bundle.min.css')).toBe(
+            'https://cdn.example.com/site/css/bundle.min.css',
+        );
+    });
+
+    it('falls back to the base path without a prefix or in dev', () => {
+        expect(assetUrl(createConfig({ base_path: '/docs/' }), 'js/a.js')).toBe(
+            '/docs/js/a.js',
+        );
+        expect(
+            assetUrl(
+                createConfig({
+                    base_path: '/docs/',
+                    asset_prefix: 'https://cdn.example.com',
+                    mode: 'dev',
+                }),
+                'js/a.js',
+            ),
+        ).toBe('/docs/js/a.js');
+    });
+});
@@ -1,6 +1,8 @@
 import { type MinimalifyConfig } from '@/config/struct.js';
 import { type DefaultTreeAdapterMap } from 'parse5';
 import path from 'path';
+import { type ScriptGroup } from '@/manager/processor/processor.js';
+import { DEFAULT_SCRIPT_GROUP } from '@/utils/constants/bundle.js';
 
 export interface AssetDetection {
     node: DefaultTreeAdapterMap['element'];
@@ -76,6 +78,45 @@ export const isJsValidForProcessing = ({
     return { isValid, value };
 };
 
+/**
+ * Get the group of a script, by its kind & when it runs. Module scripts
+ * are deferred unless they are async.
+ * @param node the script node
+ * @returns the group of the script
+ */
+export const getScriptGroup = (
+    node: DefaultTreeAdapterMap['element'],
+): ScriptGroup => {
+    const hasAttr = (name: string) => node.attrs.some((a) => a.name === name);
+    const module = node.attrs.some(
+        (a) => a.name === 'type' && a.value === 'module',
+    );
+
+    const kind = module
+        ? 'module'
+        : hasAttr('nomodule')
+          ? 'nomodule'
+          : 'classic';
+    const timing = hasAttr('async')
+        ? 'async'
+        : module || hasAttr('defer')
+          ? 'defer'
+          : 'sync';
+    return `${kind}-${timing}`;
+};
+
+/**
+ * Format the name of the js bundle of a script group, e.g.
+ * `bundle.min.js` → `bundle.module-defer.min.js`.
+ * @param name the bundle name of the default group
+ * @param group the script group
+ * @returns the bundle name of the group
+ */
+export const formatScriptBundleName = (name: string, group: ScriptGroup) =>
+    group === DEFAULT_SCRIPT_GROUP
+        ? name
+        : name.replace(/\.min\.js$/, `.${group}.min.js`);
+
 /**
  * IMG
  */
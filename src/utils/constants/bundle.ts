@@ -1,2 +1,24 @@
 export const CSS_BUNDLE_NAME = 'bundle.min.css';
 export const JS_BUNDLE_NAME = 'bundle.min.js';
+
+// code-splitting chunk names, relative to the css/js output directories
+export const SHARED_CHUNK_NAME = 'shared';
+export const PAGE_CHUNK_DIR = 'pages';
+
+// the scripts of the other groups are bundled apart, with the group in
+// the bundle name, e.g. `bundle.module-defer.min.js`
+export const DEFAULT_SCRIPT_GROUP = 'classic-defer';
+
+// number of leading body elements treated as above the fold,
+// when extracting the critical css of a page
+export const CRITICAL_FOLD_ELEMENTS = 50;
+
+// the files tried, in order, for an import without its extension,
+// e.g. `/lib/greet` → `/lib/greet.js`
+export const MODULE_RESOLVE_SUFFIXES = [
+    '',
+    '.js',
+    '.mjs',
+    '/index.js',
+    '/index.mjs',
+];
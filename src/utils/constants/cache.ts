@@ -1,2 +1,9 @@
 export const CACHE_DIR = '.minimalify';
 export const CACHE_POST_DIR = 'http-cache';
+export const CACHE_BUILD_DIR = 'build-cache';
+
+// the build cache entries not used for this long are evicted
+export const CACHE_BUILD_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+// the least recently used build cache entries are evicted past this size
+export const CACHE_BUILD_MAX_SIZE = 512 * 1024 * 1024;
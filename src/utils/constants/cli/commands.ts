@@ -9,3 +9,7 @@ export const COMMAND_BUILD_DESCRIPTION =
 export const COMMAND_DEV = 'dev';
 export const COMMAND_DEV_DESCRIPTION =
     'Launch the project using the minimalify.config.{js,json} file and watch for changes.';
+
+export const COMMAND_GRAPH = 'graph';
+export const COMMAND_GRAPH_DESCRIPTION =
+    'Build the project and export its dependency graph as DOT, Mermaid or JSON.';
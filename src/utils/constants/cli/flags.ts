@@ -1,4 +1,14 @@
-export const flags = ['config', 'force', 'verbose', 'json', 'type'] as const;
+export const flags = [
+    'config',
+    'force',
+    'verbose',
+    'json',
+    'type',
+    'format',
+    'from',
+    'affected-by',
+    'output',
+] as const;
 
 type AvailableFlagsType = (typeof flags)[number];
 
@@ -104,4 +114,50 @@ export const availableFlags: AvailableFlagsMap = {
         type: 'input',
         input: 'js',
     } as UserInputMetadataInput,
+    format: {
+        name: {
+            name: 'format',
+            alt: '',
+        },
+        description: 'Format of the exported graph (dot, mermaid or json)',
+        isArgument: false,
+        message: 'Format of the exported graph',
+        type: 'input',
+        input: 'dot',
+    } as UserInputMetadataInput,
+    from: {
+        name: {
+            name: 'from',
+            alt: '',
+        },
+        description:
+            'Only export the node and what it depends on, e.g. page:index.html',
+        isArgument: false,
+        message: 'Node to export the dependencies of',
+        type: 'input',
+        input: '',
+    } as UserInputMetadataInput,
+    'affected-by': {
+        name: {
+            name: 'affected-by',
+            alt: '',
+        },
+        description:
+            'Only export the node and what a change to it affects, e.g. tmpl:header',
+        isArgument: false,
+        message: 'Node to export the dependents of',
+        type: 'input',
+        input: '',
+    } as UserInputMetadataInput,
+    output: {
+        name: {
+            name: 'output',
+            alt: 'o',
+        },
+        description: 'Write the output to a file instead of stdout',
+        isArgument: false,
+        message: 'Path to the output file',
+        type: 'input',
+        input: '',
+    } as UserInputMetadataInput,
 };
@@ -1,2 +1,14 @@
 export const CONFIG_FILE_NAME = 'minimalify.config.js';
 export const CONFIG_FILE_NAME_JSON = 'minimalify.config.json';
+
+// the folder of the data files, in the src dir
+export const DATA_DIR_NAME = 'data';
+
+// the folder of the layouts, in the template dir
+export const LAYOUTS_DIR_NAME = 'layouts';
+
+// the meta tag a page declares its layout with
+export const LAYOUT_META_NAME = 'minimalify:layout';
+
+// the meta tag a route file declares its records with
+export const ROUTE_META_NAME = 'minimalify:route';
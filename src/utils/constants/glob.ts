@@ -3,7 +3,8 @@ export const GLOB_CSS = '**/*.css';
 export const GLOB_JS = '**/*.js';
 export const GLOB_MD = '**/*.md';
 export const GLOB_IMG = '**/*.{{SUPPORTED_IMG_EXTENSIONS}}';
-export const GLOB_TEMPLATES = '**/{TEMPLATE_DIR}/*.{html,md}';
+export const GLOB_TEMPLATES = '{TEMPLATE_DIR}/**/*.{html,md}';
+export const GLOB_DATA = '{DATA_DIR}/**/*.{json,yaml,yml,csv}';
 
 export const GLOB_INGORE = [
     '**/node_modules/**',
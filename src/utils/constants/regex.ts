@@ -1,3 +1,11 @@
 export const MATCH_TEMPLATE_REGEX = /^include-(.+)$/;
+export const MATCH_ROUTE_PARAM_REGEX = /\[([\w-]+)\]/g;
+export const MATCH_HTML_DOCUMENT_REGEX =
+    /^\s*(?:<!--[\s\S]*?-->\s*)*<(?:!doctype|html)[\s>]/i;
 export const MATCH_HTML_MD_REGEX = /\.(html|md)$/;
-export const MATCH_CHILDREN_REGEX = /\{\{children\}\}/g;
+export const MATCH_CSS_URL_REGEX = /url\(\s*(['"]?)([^'")]+)\1\s*\)/gi;
+export const MATCH_CSS_IMPORT_REGEX =
+    /^(?:url\(\s*)?(['"]?)([^'")\s]+)\1\s*\)?\s*(.*)$/;
+export const MATCH_FONT_EXT_REGEX = /\.(woff2?|ttf|otf|eot)$/i;
+export const MATCH_SOURCE_MAP_COMMENT_REGEX =
+    /\/\*# sourceMappingURL=[^*]*\*\//g;
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import fm, { type FrontMatterResult } from 'front-matter';
+import { DataError } from '@/error/data-error.js';
+
+// a reference to the site data in a template expression
+const MATCH_DATA_REF_REGEX = /\bsite\.data((?:\.[\w$-]+)*)/g;
+
+/**
+ * Parse the front-matter of a source. front-matter is a commonjs module,
+ * its default import is the parser itself & not the module its types
+ * describe.
+ * @param raw the source
+ * @returns the attributes & the body of the source
+ */
+export const parseFrontMatter = <T = Record<string, unknown>>(raw: string) =>
+    (fm as unknown as (raw: string) => FrontMatterResult<T>)(raw);
+
+/**
+ * Parse a csv file into records keyed by the header row. Fields may be
+ * quoted, with `""` escaping a quote.
+ * @param raw the csv source
+ * @returns the records
+ */
+export const parseCsv = (raw: string) => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < raw.length; i++) {
+        const char = raw[i];
+        if (quoted) {
+            if (char === '"' && raw[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') quoted = false;
+            else field += char;
+        } else if (char === '"') quoted = true;
+        else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && raw[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else field += char;
+    }
+    if (field !== '' || row.length > 0) rows.push([...row, field]);
+
+    const [header = [], ...records] = rows.filter(
+        (r) => r.length > 1 || r[0] !== '',
+    );
+    return records.map((r) =>
+        Object.fromEntries(header.map((key, i) => [key.trim(), r[i] ?? ''])),
+    );
+};
+
+/**
+ * Read & parse a data file, a json, yaml or csv file.
+ * @param absPath the absolute path of the data file
+ * @returns the data of the file
+ * @throws {DataError} if the file can't be parsed
+ */
+export const readDataFile = (absPath: string): unknown => {
+    const raw = fs.readFileSync(absPath, 'utf8');
+    try {
+        switch (path.extname(absPath).toLowerCase()) {
+            case '.json':
+                return JSON.parse(raw);
+            case '.csv':
+                return parseCsv(raw);
+            default: {
+                // the front-matter parser reads the yaml
+                return parseFrontMatter<unknown>(`---\n${raw}\n---\n`)
+                    .attributes;
+            }
+        }
+    } catch (e) {
+        throw new DataError(
+            `could not parse data file ${absPath} → ${(e as Error).message}`,
+        );
+    }
+};
+
+/**
+ * Get the site data a source references, e.g. `team` for
+ * `{{#each site.data.team as member}}`.
+ * @param source the page or template source
+ * @returns the referenced key paths, '' when the whole data is used
+ */
+export const getDataRefs = (source: string) => {
+    return Array.from(
+        new Set(
+            Array.from(source.matchAll(MATCH_DATA_REF_REGEX), (m) =>
+                (m[1] ?? '').slice(1),
+            ),
+        ),
+    );
+};
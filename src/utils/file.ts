@@ -40,6 +40,16 @@ export async function dynamicImport<T = any>(modulePath: string): Promise<T> {
     }
 }
 
+/**
+ * Check if a module specifier is a file path rather than a package name.
+ * @param specifier the module specifier
+ * @returns true if the specifier is a relative or absolute path
+ */
+export const isLocalPath = (specifier: string) =>
+    specifier.startsWith('./') ||
+    specifier.startsWith('../') ||
+    path.isAbsolute(specifier);
+
 /**
  * Read a local file dynamically.
  * @param filePath the path to the file
@@ -2,6 +2,7 @@ import fg from 'fast-glob';
 import { type MinimalifyConfig } from '@/config/struct.js';
 import {
     GLOB_CSS,
+    GLOB_DATA,
     GLOB_HTML,
     GLOB_IMG,
     GLOB_INGORE,
@@ -9,7 +10,7 @@ import {
     GLOB_MD,
     GLOB_TEMPLATES,
 } from './constants/glob.js';
-import { CONFIG_FILE_NAME } from './constants/file-name.js';
+import { CONFIG_FILE_NAME, DATA_DIR_NAME } from './constants/file-name.js';
 
 /**
  * Gather all HTML pages in the source directory.
@@ -87,6 +88,19 @@ export const gatherTemplateFiles = async (cfg: MinimalifyConfig) => {
     );
 };
 
+/**
+ * Gather all data files in the source directory.
+ * @param cfg the minimalify config
+ * @returns an array of data files
+ */
+export const gatherDataFiles = async (cfg: MinimalifyConfig) => {
+    return await fg(GLOB_DATA.replace('{DATA_DIR}', DATA_DIR_NAME), {
+        cwd: cfg.src_dir,
+        ignore: GLOB_INGORE,
+        absolute: true,
+    });
+};
+
 /**
  * Gather all Markdown files in the source directory.
  * @param cfg the minimalify config
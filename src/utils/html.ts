@@ -1,4 +1,9 @@
-import { parseFragment, serialize } from 'parse5';
+import {
+    type DefaultTreeAdapterMap,
+    parseFragment,
+    serialize,
+    serializeOuter,
+} from 'parse5';
 
 export const preserveHtml = (value: string) => {
     // parse as a fragment, then serialize back.
@@ -7,3 +12,126 @@ export const preserveHtml = (value: string) => {
     const frag = parseFragment(value);
     return serialize(frag);
 };
+
+/**
+ * Collect the slots of an `include-*` element: the children marked with
+ * `slot="name"` fill the slot of that name, without the attribute, the
+ * other children fill the `default` slot.
+ * @param node the include element
+ * @returns the html of the slots by name
+ */
+export const collectSlots = (node: DefaultTreeAdapterMap['element']) => {
+    const slots: Record<string, string> = {};
+    const rest: DefaultTreeAdapterMap['childNode'][] = [];
+
+    for (const child of node.childNodes || []) {
+        const slot =
+            'attrs' in child
+                ? child.attrs.find((a) => a.name === 'slot')
+                : undefined;
+        if (!slot || !('attrs' in child)) {
+            rest.push(child);
+            continue;
+        }
+
+        const html = serializeOuter({
+            ...child,
+            attrs: child.attrs.filter((a) => a !== slot),
+        });
+        slots[slot.value] = (slots[slot.value] ?? '') + html;
+    }
+
+    // serialize the remaining children through an empty fragment
+    const fragment = parseFragment('');
+    fragment.childNodes = rest;
+    slots.default = serialize(fragment);
+
+    return slots;
+};
+
+/**
+ * Merge attributes into those of an element. The `class` & `style` are
+ * merged with those of the element, the other attributes replace them.
+ * @param node the element
+ * @param attrs the attributes to merge
+ */
+export const mergeAttrs = (
+    node: DefaultTreeAdapterMap['element'],
+    attrs: DefaultTreeAdapterMap['element']['attrs'],
+) => {
+    for (const { name, value } of attrs) {
+        const existing = node.attrs.find((a) => a.name === name);
+        if (!existing) node.attrs.push({ name, value });
+        else if (name === 'class')
+            existing.value = Array.from(
+                new Set(
+                    `${existing.value} ${value}`.split(/\s+/).filter(Boolean),
+                ),
+            ).join(' ');
+        else if (name === 'style')
+            existing.value = [existing.value.trim().replace(/;$/, ''), value]
+                .filter((v) => v.trim() !== '')
+                .join('; ');
+        else existing.value = value;
+    }
+};
+
+/**
+ * Forward attributes onto the root element of a rendered template, see
+ * `mergeAttrs`.
+ * @param fragment the rendered template
+ * @param attrs the attributes to forward
+ * @returns false if the template has no single root element
+ */
+export const forwardAttrs = (
+    fragment: DefaultTreeAdapterMap['documentFragment'],
+    attrs: DefaultTreeAdapterMap['element']['attrs'],
+) => {
+    if (attrs.length === 0) return true;
+
+    const roots = fragment.childNodes.filter(
+        (n) =>
+            n.nodeName !== '#comment' &&
+            !(n.nodeName === '#text' && 'value' in n && n.value.trim() === ''),
+    );
+    const root = roots[0];
+    if (roots.length !== 1 || !root || !('attrs' in root)) return false;
+
+    mergeAttrs(root, attrs);
+    return true;
+};
+
+/**
+ * Take a `<meta name="...">` out of the head of a document.
+ * @param doc the document
+ * @param name the name of the meta
+ * @returns the content of the meta, undefined if the head has none
+ */
+export const takeMeta = (
+    doc: DefaultTreeAdapterMap['element'],
+    name: string,
+) => {
+    const find = (
+        node: DefaultTreeAdapterMap['element'] | undefined,
+        tag: string,
+    ) =>
+        node?.childNodes.find((n) => 'tagName' in n && n.tagName === tag) as
+            | DefaultTreeAdapterMap['element']
+            | undefined;
+    const head = find(find(doc, 'html'), 'head');
+    if (!head) return undefined;
+
+    let content: string | undefined;
+    head.childNodes = head.childNodes.filter((n) => {
+        const meta = n as DefaultTreeAdapterMap['element'];
+        const match =
+            meta.tagName === 'meta' &&
+            meta.attrs.some((a) => a.name === 'name' && a.value === name);
+        if (match)
+            content =
+                meta.attrs.find((a) => a.name === 'content')?.value ?? content;
+        return !match;
+    });
+
+    return content;
+};
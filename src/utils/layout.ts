@@ -0,0 +1,185 @@
+import {
+    type DefaultTreeAdapterMap,
+    parse,
+    parseFragment,
+    serialize,
+} from 'parse5';
+import { collectSlots, mergeAttrs, takeMeta } from '@/utils/html.js';
+import { renderTemplate, SafeHtml } from '@/utils/template.js';
+import { logger } from '@/utils/logger.js';
+import { LAYOUT_META_NAME } from '@/utils/constants/file-name.js';
+
+type Element = DefaultTreeAdapterMap['element'];
+type ChildNode = DefaultTreeAdapterMap['childNode'];
+
+// the element the body of the page takes the place of in the layout
+const CHILDREN_PLACEHOLDER = 'minimalify-children';
+
+const findChild = (node: Element | undefined, tagName: string) =>
+    node?.childNodes.find((n) => 'tagName' in n && n.tagName === tagName) as
+        | Element
+        | undefined;
+
+/**
+ * Get the `<html>`, `<head>` & `<body>` of a document.
+ * @param doc the document
+ * @returns the skeleton elements, undefined if missing
+ */
+const getSkeleton = (doc: Element) => {
+    const html = findChild(doc, 'html');
+    return {
+        html,
+        head: findChild(html, 'head'),
+        body: findChild(html, 'body'),
+    };
+};
+
+/**
+ * Get the key of a head entry, the entry of the page replaces the entry
+ * of the layout with the same key, e.g. the `<title>` or a `<meta name>`.
+ * @param node the head entry
+ * @returns the key of the entry, undefined if the entries are appended
+ */
+const getHeadKey = (node: Element) => {
+    const attr = (name: string) =>
+        node.attrs?.find((a) => a.name === name)?.value;
+
+    if (node.tagName === 'title' || node.tagName === 'base')
+        return node.tagName;
+    if (node.tagName === 'meta') {
+        if (attr('charset') !== undefined) return 'meta:charset';
+        const name = attr('name') ?? attr('property') ?? attr('http-equiv');
+        if (name !== undefined) return `meta:${name}`;
+    }
+    if (node.tagName === 'link' && attr('rel') === 'canonical')
+        return 'link:canonical';
+    return undefined;
+};
+
+/**
+ * Take the layout a page declares, with a `<meta name="minimalify:layout">`
+ * in its head or a `layout` attribute on its `<html>`. The declaration is
+ * removed from the page.
+ * @param doc the page document
+ * @returns the name of the layout, undefined if the page has none
+ */
+export const takeLayout = (doc: Element) => {
+    const { html } = getSkeleton(doc);
+    let layout: string | undefined;
+
+    const attr = html?.attrs.find((a) => a.name === 'layout');
+    if (html && attr) {
+        html.attrs = html.attrs.filter((a) => a !== attr);
+        layout = attr.value;
+    }
+
+    layout = takeMeta(doc, LAYOUT_META_NAME) ?? layout;
+    return layout?.trim() || undefined;
+};
+
+/**
+ * Wrap a page in its layout. The body of the page fills the `{{children}}`
+ * of the layout, its children marked with `slot="name"` the named slots,
+ * and the head entries of the page are merged into the head of the layout.
+ * @param doc the page document
+ * @param layout the layout template
+ * @param opts the layout file, for the errors, & the params of the layout
+ * @returns the document of the wrapped page
+ * @throws {TemplateError} if the layout is malformed
+ */
+export const applyLayout = (
+    doc: Element,
+    layout: string,
+    opts: { file: string; data?: Record<string, unknown> },
+) => {
+    const page = getSkeleton(doc);
+    if (!page.html || !page.head || !page.body) return doc;
+
+    // the body is moved as nodes, the includes of the page keep their
+    // location for the template errors
+    const slots = collectSlots(page.body);
+    const rest = page.body.childNodes.filter(
+        (n) => !('attrs' in n && n.attrs.some((a) => a.name === 'slot')),
+    );
+
+    const title = findChild(page.head, 'title')
+        ?.childNodes.map((n) => ('value' in n ? n.value : ''))
+        .join('');
+
+    const wrapped = parse(
+        renderTemplate(
+            layout,
+            {
+                ...(title !== undefined ? { title } : {}),
+                ...opts.data,
+                children: new SafeHtml(
+                    `<${CHILDREN_PLACEHOLDER}></${CHILDREN_PLACEHOLDER}>`,
+                ),
+            },
+            { file: opts.file, slots },
+        ),
+    ) as unknown as Element;
+    const target = getSkeleton(wrapped);
+    if (!target.html || !target.head || !target.body) return doc;
+
+    // 1. Fill the children of the layout with the body of the page
+    let filled = false;
+    const fill = (node: Element) => {
+        node.childNodes = node.childNodes.flatMap((n) => {
+            const child = n as Element;
+            if (child.tagName !== CHILDREN_PLACEHOLDER) {
+                if (child.childNodes) fill(child);
+                return n;
+            }
+
+            const nodes: ChildNode[] = filled
+                ? parseFragment(slots.default ?? '').childNodes
+                : rest;
+            filled = true;
+            nodes.forEach((c) => (c.parentNode = node));
+            return nodes;
+        });
+    };
+    fill(wrapped);
+
+    if (!filled && (slots.default ?? '').trim() !== '') {
+        logger.warn(
+            `layout ${opts.file} has no {{children}}, the body of the page is dropped`,
+        );
+    }
+
+    // 2. Merge the head of the page into the head of the layout
+    for (const n of page.head.childNodes) {
+        const entry = n as Element;
+        if (!entry.tagName) continue;
+
+        const key = getHeadKey(entry);
+        if (key !== undefined) {
+            target.head.childNodes = target.head.childNodes.filter(
+                (l) => !('tagName' in l) || getHeadKey(l) !== key,
+            );
+        }
+        entry.parentNode = target.head;
+        target.head.childNodes.push(entry);
+    }
+
+    // 3. The attributes of the page win over those of the layout
+    mergeAttrs(target.html, page.html.attrs);
+    mergeAttrs(target.body, page.body.attrs);
+
+    return wrapped;
+};
+
+/**
+ * Wrap an html page in its layout, see `applyLayout`.
+ * @param html the page
+ * @param layout the layout template
+ * @param opts the layout file, for the errors, & the params of the layout
+ * @returns the wrapped page
+ * @throws {TemplateError} if the layout is malformed
+ */
+export const applyLayoutToHtml = (
+    html: string,
+    layout: string,
+    opts: { file: string; data?: Record<string, unknown> },
+) => serialize(applyLayout(parse(html) as unknown as Element, layout, opts));
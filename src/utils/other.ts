@@ -4,23 +4,6 @@ import pLimit from 'p-limit';
 const concurrency = os.cpus().length;
 export const limit = pLimit(concurrency);
 
-/**
- * Parse the attributes from a string
- * @param str the string to parse
- * @returns an object with the attributes
- */
-export const parseAttrs = (str: string): Record<string, string> => {
-    const out: Record<string, string> = {};
-    const re = /([\w-]+)\s*=\s*"([^"]*)"/g;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(str))) {
-        if (m[1] !== undefined) {
-            out[m[1]] = m[2] || '';
-        }
-    }
-    return out;
-};
-
 /**
  *
  * @param base the base URL
@@ -32,3 +15,43 @@ export const appendPath = (base: string, segment: string) => {
     const baseWithSlash = base.endsWith('/') ? base : base + '/';
     return new URL(segment, baseWithSlash).toString();
 };
+
+/**
+ * Replace all matches of a regex with the result of an async function.
+ * @param str the string to replace in
+ * @param re the global regex to match
+ * @param fn the async replacer, called with the match & its groups
+ * @returns the replaced string
+ */
+export const replaceAsync = async (
+    str: string,
+    re: RegExp,
+    fn: (match: string, ...groups: string[]) => Promise<string>,
+): Promise<string> => {
+    const matches = Array.from(str.matchAll(re));
+    let out = '';
+    let last = 0;
+    for (const m of matches) {
+        out += str.slice(last, m.index) + (await fn(m[0], ...m.slice(1)));
+        last = (m.index ?? 0) + m[0].length;
+    }
+    return out + str.slice(last);
+};
+
+/**
+ * Deep clone the plain objects & arrays of a value. The other values,
+ * e.g. the hooks of an inline plugin, are kept as is.
+ * @param value the value to clone
+ * @returns the clone
+ */
+export const clonePlain = <T>(value: T): T => {
+    if (Array.isArray(value)) return value.map(clonePlain) as T;
+    if (value === null || typeof value !== 'object') return value;
+
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) return value;
+
+    return Object.fromEntries(
+        Object.entries(value).map(([key, v]) => [key, clonePlain(v)]),
+    ) as T;
+};
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import fg from 'fast-glob';
+import MarkdownIt from 'markdown-it';
+import { type MinimalifyConfig } from '@/config/struct.js';
+import { DataError } from '@/error/data-error.js';
+import { parseFrontMatter } from '@/utils/data.js';
+import { GLOB_INGORE } from '@/utils/constants/glob.js';
+import { MATCH_ROUTE_PARAM_REGEX } from '@/utils/constants/regex.js';
+
+const md = new MarkdownIt({
+    html: true,
+    linkify: true,
+    typographer: true,
+});
+
+/**
+ * A record of a route & the data nodes it comes from.
+ */
+export interface RouteRecord {
+    record: Record<string, unknown>;
+    dependencies: string[];
+}
+
+/**
+ * Check whether a page is a route file, e.g. `products/[slug].html`.
+ * @param relPath the relative path of the page
+ * @returns whether the page is a route file
+ */
+export const isRouteFile = (relPath: string) =>
+    new RegExp(MATCH_ROUTE_PARAM_REGEX.source).test(relPath);
+
+/**
+ * Get the markdown files of a collection, e.g. `posts/*.md`.
+ * @param cfg the minimalify config
+ * @param source the data source of the route
+ * @returns the absolute paths of the files, sorted
+ */
+export const getCollectionFiles = async (
+    cfg: MinimalifyConfig,
+    source: string,
+) => {
+    if (!source.endsWith('.md')) return [];
+
+    const files = await fg(source, {
+        cwd: cfg.src_dir,
+        ignore: GLOB_INGORE,
+        absolute: true,
+    });
+    return files.sort();
+};
+
+/**
+ * Get the records of a route: the items of a key of the site data, e.g.
+ * `products`, or the pages of a markdown collection, e.g. `posts/*.md`,
+ * with their front-matter, their `slug` & their html `content`.
+ * @param cfg the minimalify config
+ * @param route the route file, for the errors
+ * @param source the data source of the route
+ * @param site the site data & the data file of each key path
+ * @returns the records of the route
+ * @throws {DataError} if the source is not a list of records
+ */
+export const getRouteRecords = async (
+    cfg: MinimalifyConfig,
+    route: string,
+    source: string,
+    site: { data: Record<string, unknown>; files: Record<string, string> },
+): Promise<RouteRecord[]> => {
+    if (source.endsWith('.md')) {
+        const files = await getCollectionFiles(cfg, source);
+        return files.map((absMd) => {
+            const { attributes, body } = parseFrontMatter(
+                fs.readFileSync(absMd, 'utf8'),
+            );
+
+            return {
+                record: {
+                    slug: path.basename(absMd, '.md'),
+                    ...attributes,
+                    content: md.render(body),
+                },
+                dependencies: [`data:${path.relative(cfg.src_dir, absMd)}`],
+            };
+        });
+    }
+
+    let value: unknown = site.data;
+    for (const key of source.split('.')) {
+        value =
+            value !== null && typeof value === 'object'
+                ? (value as Record<string, unknown>)[key]
+                : undefined;
+    }
+
+    // the records keyed by their slug are listed with their key
+    const records = Array.isArray(value)
+        ? value
+        : value !== null && typeof value === 'object'
+          ? Object.entries(value).map(([key, record]) => ({
+                key,
+                ...(record as object),
+            }))
+          : undefined;
+    if (!records || records.some((r) => r === null || typeof r !== 'object'))
+        throw new DataError(
+            `data ${source} of the route ${route} is not a list of records`,
+        );
+
+    const dependencies = Object.entries(site.files)
+        .filter(
+            ([key]) =>
+                `${source}.`.startsWith(`${key}.`) ||
+                `${key}.`.startsWith(`${source}.`),
+        )
+        .map(([, name]) => `data:${name}`);
+    return records.map((record) => ({
+        record: record as Record<string, unknown>,
+        dependencies,
+    }));
+};
+
+/**
+ * Format the page of a record, e.g. `products/[slug].html` → `products/lamp.html`.
+ * @param route the route file
+ * @param record the record of the page
+ * @returns the relative path of the page & the params of its path
+ * @throws {DataError} if the record has no valid value for a param
+ */
+export const formatRoutePage = (
+    route: string,
+    record: Record<string, unknown>,
+) => {
+    const params: Record<string, string> = {};
+    const page = route.replace(MATCH_ROUTE_PARAM_REGEX, (_, param: string) => {
+        const value = record[param];
+        const segment =
+            typeof value === 'string' || typeof value === 'number'
+                ? String(value).trim()
+                : '';
+
+        if (
+            segment === '' ||
+            segment === '.' ||
+            segment === '..' ||
+            /[\\/]/.test(segment)
+        )
+            throw new DataError(
+                `a record of the route ${route} has no valid ${param} → ${JSON.stringify(value)}`,
+            );
+
+        params[param] = segment;
+        return segment;
+    });
+
+    return { page, params };
+};
@@ -0,0 +1,717 @@
+import path from 'path';
+import { TemplateError } from '@/error/template-error.js';
+import { preserveHtml } from './html.js';
+import { logger } from './logger.js';
+
+/**
+ * A node of a parsed template.
+ */
+type TemplateNode =
+    | { type: 'text'; value: string }
+    | { type: 'var'; path: string; raw: boolean; start: number }
+    | {
+          type: 'if';
+          path: string;
+          then: TemplateNode[];
+          else: TemplateNode[];
+          start: number;
+      }
+    | {
+          type: 'each';
+          path: string;
+          alias: string;
+          then: TemplateNode[];
+          else: TemplateNode[];
+          start: number;
+      }
+    | {
+          // the then branch holds the fallback of the slot
+          type: 'slot';
+          name: string;
+          then: TemplateNode[];
+          else: TemplateNode[];
+          start: number;
+      };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' | 'slot' }>;
+
+/**
+ * A prop declared by a template.
+ */
+export interface TemplateProp {
+    // the type the attribute is converted to, strings by default
+    type?: 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+    // whether the include has to set the prop
+    required?: boolean;
+
+    // the value of the prop when the include doesn't set it
+    default?: unknown;
+}
+
+/**
+ * A parsed template: its declared props & its nodes.
+ */
+export interface ParsedTemplate {
+    props?: Record<string, TemplateProp>;
+    nodes: TemplateNode[];
+}
+
+/**
+ * A position in a source, 1-based.
+ */
+interface SourcePosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * Where a template is included, for the errors of its props.
+ */
+export interface IncludeSite extends SourcePosition {
+    // the file & the source holding the include element
+    file: string;
+    source: string;
+}
+
+/**
+ * Options of a template render.
+ */
+export interface TemplateRenderOptions {
+    // the template file, for the error messages
+    file: string;
+
+    // keep the blocks whose variable is not known yet, for the templates
+    // expanded into another template before the page gives them values
+    partial?: boolean;
+
+    // the content of the slots by name, `default` holds the children
+    slots?: Record<string, string>;
+
+    // the include element rendering the template
+    site?: IncludeSite;
+}
+
+/**
+ * Markup inserted as is, even by an escaped `{{name}}`.
+ */
+export class SafeHtml {
+    constructor(public readonly html: string) {}
+
+    toString() {
+        return this.html;
+    }
+}
+
+// {{{raw}}} or {{tag}}
+const MATCH_TAG_REGEX = /\{\{\{\s*([^{}]*?)\s*\}\}\}|\{\{\s*([^{}]*?)\s*\}\}/g;
+const MATCH_PATH_REGEX = /^@?[\w$-]+(\.[\w$-]+)*$/;
+const MATCH_IF_REGEX = /^#if\s+(\S+)$/;
+const MATCH_EACH_REGEX = /^#each\s+(\S+)\s+as\s+(\S+)$/;
+const MATCH_SLOT_REGEX = /^(#?)slot:([\w-]+)$/;
+const MATCH_PROPS_REGEX = /^\s*<!--\s*props:([\s\S]*?)-->/;
+const MATCH_ALIAS_REGEX = /^\{\{\s*(@?[\w$-]+(?:\.[\w$-]+)*)\s*\}\}$/;
+const PROP_TYPES = ['string', 'number', 'boolean', 'array', 'object'];
+
+// the each alias of a block kept in a partial render
+const UNRESOLVED = Symbol('unresolved');
+
+/**
+ * Get the line & column of an offset in a source.
+ * @param source the source
+ * @param offset the offset
+ * @returns the position of the offset
+ */
+const locate = (source: string, offset: number): SourcePosition => {
+    const lines = source.slice(0, offset).split('\n');
+    return {
+        line: lines.length,
+        column: (lines[lines.length - 1]?.length ?? 0) + 1,
+    };
+};
+
+/**
+ * Build the error of a template, pointing at the file & line, and log
+ * the code frame of the faulty line.
+ * @param source the source of the file
+ * @param file the file
+ * @param pos the position of the faulty tag in the source
+ * @param msg the error message
+ * @returns the template error
+ */
+const templateError = (
+    source: string,
+    file: string,
+    pos: SourcePosition,
+    msg: string,
+) => {
+    const label = path.isAbsolute(file)
+        ? path.relative(process.cwd(), file)
+        : file;
+    const error = new TemplateError(
+        `${label}:${pos.line}:${pos.column} ${msg}`,
+    );
+    logger.errorWithFrame(error, source, { start: pos });
+    return error;
+};
+
+/**
+ * Parse the props declared in the leading `<!-- props: {...} -->` of a
+ * template. A prop is declared with its spec, or its type only.
+ * @param source the template source
+ * @param file the template file, for the error messages
+ * @returns the declared props & the length of the declaration
+ * @throws {TemplateError} if the declaration is invalid
+ */
+const parseProps = (source: string, file: string) => {
+    const m = MATCH_PROPS_REGEX.exec(source);
+    if (!m) return { props: undefined, length: 0 };
+
+    const start = m[0].indexOf('props:');
+    const fail = (msg: string) =>
+        templateError(source, file, locate(source, start), msg);
+
+    let declared: unknown;
+    try {
+        declared = JSON.parse(m[1] ?? '');
+    } catch (e) {
+        throw fail(`invalid props declaration: ${(e as Error).message}`);
+    }
+    if (typeof declared !== 'object' || declared === null)
+        throw fail('invalid props declaration, expected an object');
+
+    const props: Record<string, TemplateProp> = {};
+    for (const [name, spec] of Object.entries(declared)) {
+        const prop: TemplateProp =
+            typeof spec === 'string'
+                ? { type: spec as TemplateProp['type'] }
+                : spec;
+        if (typeof prop !== 'object' || prop === null)
+            throw fail(`invalid prop ${name}, expected a type or a spec`);
+        if (prop.type !== undefined && !PROP_TYPES.includes(prop.type))
+            throw fail(
+                `invalid type ${prop.type} of the prop ${name}, expected one of ${PROP_TYPES.join(', ')}`,
+            );
+        props[name] = prop;
+    }
+    return { props, length: m[0].length };
+};
+
+/**
+ * Print the opening tag of a block.
+ * @param block the block
+ * @returns the opening tag
+ */
+const openTag = (block: BlockNode) =>
+    block.type === 'slot'
+        ? `{{#slot:${block.name}}}`
+        : `{{#${block.type} ${block.path}}}`;
+
+/**
+ * Parse a range of a template into its text, variables, blocks & slots.
+ * The nodes keep their offset in the whole source, for the errors.
+ * @param source the template source
+ * @param file the template file, for the error messages
+ * @param from the offset the range starts at
+ * @param to the offset the range ends at
+ * @returns the nodes of the range
+ * @throws {TemplateError} if a block is malformed
+ */
+const parseRange = (
+    source: string,
+    file: string,
+    from: number,
+    to: number,
+): TemplateNode[] => {
+    const root: TemplateNode[] = [];
+
+    // the open blocks & the branch their children are added to
+    const stack: { block: BlockNode; branch: 'then' | 'else' }[] = [];
+    const current = () => {
+        const top = stack[stack.length - 1];
+        return top ? top.block[top.branch] : root;
+    };
+
+    let last = from;
+    for (const m of source.matchAll(MATCH_TAG_REGEX)) {
+        const start = m.index ?? 0;
+        if (start < last) continue;
+        if (start + m[0].length > to) break;
+
+        const raw = m[1] !== undefined;
+        const tag = (raw ? m[1] : m[2]) ?? '';
+        const fail = (msg: string) =>
+            templateError(source, file, locate(source, start), msg);
+
+        if (start > last)
+            current().push({ type: 'text', value: source.slice(last, start) });
+        last = start + m[0].length;
+
+        const ifMatch = MATCH_IF_REGEX.exec(tag);
+        const eachMatch = MATCH_EACH_REGEX.exec(tag);
+        const slotMatch = MATCH_SLOT_REGEX.exec(tag);
+        if (slotMatch) {
+            const block: BlockNode = {
+                type: 'slot',
+                name: slotMatch[2] ?? '',
+                then: [],
+                else: [],
+                start,
+            };
+            current().push(block);
+            // {{#slot:name}} opens the fallback of the slot
+            if (slotMatch[1]) stack.push({ block, branch: 'then' });
+        } else if (ifMatch || eachMatch) {
+            const [, blockPath = '', alias = ''] = ifMatch ?? eachMatch ?? [];
+            if (!MATCH_PATH_REGEX.test(blockPath))
+                throw fail(`invalid variable ${blockPath} in {{${tag}}}`);
+            if (eachMatch && !/^[\w$]+$/.test(alias))
+                throw fail(`invalid loop variable ${alias} in {{${tag}}}`);
+
+            const block: BlockNode = ifMatch
+                ? { type: 'if', path: blockPath, then: [], else: [], start }
+                : {
+                      type: 'each',
+                      path: blockPath,
+                      alias,
+                      then: [],
+                      else: [],
+                      start,
+                  };
+            current().push(block);
+            stack.push({ block, branch: 'then' });
+        } else if (tag.startsWith('#if') || tag.startsWith('#each')) {
+            throw fail(
+                `malformed {{${tag}}}, expected {{#if name}} or {{#each items as item}}`,
+            );
+        } else if (tag === 'else') {
+            const top = stack[stack.length - 1];
+            if (!top || top.block.type === 'slot')
+                throw fail('{{else}} outside of an {{#if}} or {{#each}}');
+            if (top.branch === 'else')
+                throw fail(`duplicate {{else}} in ${openTag(top.block)}`);
+            top.branch = 'else';
+        } else if (tag === '/if' || tag === '/each' || tag === '/slot') {
+            const top = stack.pop();
+            if (!top) throw fail(`{{${tag}}} without an open block`);
+            if (`/${top.block.type}` !== tag)
+                throw fail(
+                    `{{${tag}}} closes ${openTag(top.block)}, expected {{/${top.block.type}}}`,
+                );
+        } else if (tag.startsWith('/') || tag.startsWith('#')) {
+            throw fail(`unknown block {{${tag}}}`);
+        } else if (MATCH_PATH_REGEX.test(tag)) {
+            current().push({ type: 'var', path: tag, raw, start });
+        } else {
+            // not a template variable, e.g. a client-side expression
+            current().push({ type: 'text', value: m[0] });
+        }
+    }
+    if (last < to)
+        current().push({ type: 'text', value: source.slice(last, to) });
+
+    const open = stack.pop();
+    if (open)
+        throw templateError(
+            source,
+            file,
+            locate(source, open.block.start),
+            `${openTag(open.block)} is never closed`,
+        );
+
+    return root;
+};
+
+/**
+ * Parse a template into its props, text, variables, blocks & slots.
+ * @param source the template source
+ * @param file the template file, for the error messages
+ * @returns the parsed template
+ * @throws {TemplateError} if the props or a block are malformed
+ */
+export const parseTemplate = (source: string, file: string): ParsedTemplate => {
+    // the props declaration is left out of the output
+    const { props, length } = parseProps(source, file);
+    return { props, nodes: parseRange(source, file, length, source.length) };
+};
+
+/**
+ * Escape a value for the html.
+ * @param value the value to escape
+ * @returns the escaped value
+ */
+export const escapeHtml = (value: string) =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+
+/**
+ * Look a variable up in the scopes, innermost first. A value that is
+ * itself a single `{{name}}` is an alias, the variable is renamed to it.
+ * @param scopes the scopes of the render
+ * @param varPath the dotted path of the variable
+ * @returns the value, or the renamed path if it is not known yet
+ */
+const lookup = (
+    scopes: Record<string, unknown>[],
+    varPath: string,
+): { value: unknown } | { alias: string } | undefined => {
+    const [head = '', ...rest] = varPath.split('.');
+    const scope = [...scopes]
+        .reverse()
+        .find((s) => Object.prototype.hasOwnProperty.call(s, head));
+    if (!scope) return undefined;
+
+    let value: unknown = scope[head];
+    if (value === UNRESOLVED) return { alias: varPath };
+    if (typeof value === 'string') {
+        const alias = MATCH_ALIAS_REGEX.exec(value);
+        if (alias) return { alias: [alias[1], ...rest].join('.') };
+    }
+
+    for (const key of rest) {
+        if (value === null || typeof value !== 'object') return undefined;
+        value = (value as Record<string, unknown>)[key];
+    }
+    return value === undefined ? undefined : { value };
+};
+
+/**
+ * Whether a value takes the then branch of an `{{#if}}`. Empty strings,
+ * `false` & empty lists don't, as attributes are always strings.
+ * @param value the value
+ * @returns true if the value is truthy
+ */
+const isTruthy = (value: unknown) => {
+    if (value instanceof SafeHtml) return value.html.trim() !== '';
+    if (Array.isArray(value)) return value.length > 0;
+    if (typeof value === 'string') return value !== '' && value !== 'false';
+    return Boolean(value);
+};
+
+/**
+ * Print a value, escaped unless it is raw.
+ * @param value the value
+ * @param raw whether the value is inserted as html
+ * @returns the printed value
+ */
+const printValue = (value: unknown, raw: boolean) => {
+    if (value instanceof SafeHtml) return value.html;
+    const str =
+        typeof value === 'object' && value !== null
+            ? JSON.stringify(value)
+            : String(value);
+    return raw ? preserveHtml(str) : escapeHtml(str);
+};
+
+/**
+ * Render the nodes of a template.
+ * @param source the template source, for the error messages
+ * @param nodes the nodes to render
+ * @param scopes the scopes of the render, innermost last
+ * @param opts the render options
+ * @returns the rendered html
+ * @throws {TemplateError} if an `{{#each}}` is given something else than a list
+ */
+const renderNodes = (
+    source: string,
+    nodes: TemplateNode[],
+    scopes: Record<string, unknown>[],
+    opts: TemplateRenderOptions,
+): string => {
+    const render = (children: TemplateNode[], inner = scopes) =>
+        renderNodes(source, children, inner, opts);
+
+    // print a block back, for a later render to evaluate
+    const printBlock = (
+        block: Exclude<BlockNode, { type: 'slot' }>,
+        blockPath: string,
+        inner = scopes,
+    ) => {
+        const open =
+            block.type === 'if'
+                ? `{{#if ${blockPath}}}`
+                : `{{#each ${blockPath} as ${block.alias}}}`;
+        const otherwise =
+            block.else.length > 0 ? `{{else}}${render(block.else)}` : '';
+        return `${open}${render(block.then, inner)}${otherwise}{{/${block.type}}}`;
+    };
+
+    let out = '';
+    for (const node of nodes) {
+        if (node.type === 'text') {
+            out += node.value;
+            continue;
+        }
+
+        // slots are filled by the include, their fallback otherwise
+        if (node.type === 'slot') {
+            const html = opts.slots?.[node.name] ?? '';
+            out += html.trim() !== '' ? html : render(node.then);
+            continue;
+        }
+
+        const found = lookup(scopes, node.path);
+        if (node.type === 'var') {
+            // unknown variables are kept, a later render may know them
+            if (!found || 'alias' in found) {
+                const varPath = found ? found.alias : node.path;
+                out += node.raw ? `{{{${varPath}}}}` : `{{${varPath}}}`;
+            } else out += printValue(found.value, node.raw);
+            continue;
+        }
+
+        if (opts.partial && (!found || 'alias' in found)) {
+            out += printBlock(
+                node,
+                found ? found.alias : node.path,
+                node.type === 'each'
+                    ? [
+                          ...scopes,
+                          { [node.alias]: UNRESOLVED, '@index': UNRESOLVED },
+                      ]
+                    : scopes,
+            );
+            continue;
+        }
+
+        const value = found && 'value' in found ? found.value : undefined;
+        if (node.type === 'if') {
+            out += render(isTruthy(value) ? node.then : node.else);
+            continue;
+        }
+
+        let items = value ?? [];
+        if (typeof items === 'string') {
+            try {
+                items = items.trim() === '' ? [] : JSON.parse(items);
+            } catch {
+                // not a list, reported below
+            }
+        }
+        if (!Array.isArray(items))
+            throw templateError(
+                source,
+                opts.file,
+                locate(source, node.start),
+                `{{#each ${node.path}}} expects a list, got ${JSON.stringify(value)}`,
+            );
+
+        out +=
+            items.length === 0
+                ? render(node.else)
+                : items
+                      .map((item, i) =>
+                          render(node.then, [
+                              ...scopes,
+                              { [node.alias]: item, '@index': i },
+                          ]),
+                      )
+                      .join('');
+    }
+    return out;
+};
+
+/**
+ * Get the params of a template: its declared props & the variables it
+ * uses. The other attributes of an include are forwarded to the root.
+ * @param source the template source
+ * @param file the template file, for the error messages
+ * @returns the names of the params
+ * @throws {TemplateError} if the template is malformed
+ */
+export const getTemplateParams = (source: string, file: string) => {
+    const { props, nodes } = parseTemplate(source, file);
+    const params = new Set(Object.keys(props ?? {}));
+
+    const collect = (children: TemplateNode[]) => {
+        for (const node of children) {
+            if (node.type === 'text') continue;
+            if (node.type !== 'slot') params.add(node.path.split('.')[0] ?? '');
+            if (node.type !== 'var') {
+                collect(node.then);
+                collect(node.else);
+            }
+        }
+    };
+    collect(nodes);
+
+    return params;
+};
+
+/**
+ * Convert the value of a prop to its declared type.
+ * @param prop the declared prop
+ * @param value the value set by the include, attributes are strings
+ * @returns the converted value, undefined if it doesn't match the type
+ */
+const convertProp = (prop: TemplateProp, value: unknown): unknown => {
+    switch (prop.type) {
+        case 'number': {
+            const n = typeof value === 'number' ? value : Number(value);
+            return value === '' || Number.isNaN(n) ? undefined : n;
+        }
+        case 'boolean':
+            // a bare attribute, e.g. <include-nav active>, is true
+            if (value === true || value === '' || value === 'true') return true;
+            if (value === false || value === 'false') return false;
+            return undefined;
+        case 'array':
+        case 'object': {
+            let parsed = value;
+            if (typeof value === 'string') {
+                try {
+                    parsed = JSON.parse(value);
+                } catch {
+                    return undefined;
+                }
+            }
+            const isArray = Array.isArray(parsed);
+            if (typeof parsed !== 'object' || parsed === null) return undefined;
+            return isArray === (prop.type === 'array') ? parsed : undefined;
+        }
+        default:
+            return typeof value === 'object' ? undefined : String(value);
+    }
+};
+
+/**
+ * Resolve the declared props of a template from the attributes of the
+ * include: fill the defaults, check the required props & the types.
+ * @param source the template source
+ * @param props the declared props
+ * @param data the attributes of the include
+ * @param opts the render options
+ * @returns the values of the variables
+ * @throws {TemplateError} if a prop is missing or of the wrong type
+ */
+const resolveProps = (
+    source: string,
+    props: Record<string, TemplateProp>,
+    data: Record<string, unknown>,
+    opts: TemplateRenderOptions,
+) => {
+    const label = path.isAbsolute(opts.file)
+        ? path.relative(process.cwd(), opts.file)
+        : opts.file;
+    const fail = (msg: string) =>
+        opts.site
+            ? templateError(opts.site.source, opts.site.file, opts.site, msg)
+            : templateError(source, opts.file, locate(source, 0), msg);
+
+    const values = { ...data };
+    for (const [name, prop] of Object.entries(props)) {
+        let value = data[name];
+
+        // a prop forwarded from the including template is set later
+        if (typeof value === 'string' && MATCH_ALIAS_REGEX.test(value)) {
+            if (opts.partial) continue;
+            value = undefined;
+        }
+
+        if (value === undefined) {
+            if (prop.required)
+                throw fail(`missing required prop ${name} of ${label}`);
+            values[name] = prop.default ?? '';
+            continue;
+        }
+
+        const converted = convertProp(prop, value);
+        if (converted === undefined)
+            throw fail(
+                `invalid prop ${name} of ${label}, expected ${prop.type === 'array' || prop.type === 'object' ? 'an' : 'a'} ${prop.type}, got ${JSON.stringify(value)}`,
+            );
+        values[name] = converted;
+    }
+    return values;
+};
+
+/**
+ * Render a template: `{{name}}` is escaped, `{{{name}}}` is inserted as
+ * html, `{{#if name}}…{{else}}…{{/if}}` & `{{#each items as item}}…{{/each}}`
+ * are evaluated, `{{slot:name}}` & `{{#slot:name}}fallback{{/slot}}` are
+ * filled with the slots. Unknown variables are kept as is, unless they
+ * are declared props of the template.
+ * @param source the template source
+ * @param data the values of the variables
+ * @param opts the render options
+ * @returns the rendered html
+ * @throws {TemplateError} if the template is malformed or a prop is invalid
+ */
+export const renderTemplate = (
+    source: string,
+    data: Record<string, unknown>,
+    opts: TemplateRenderOptions,
+) => {
+    const { props, nodes } = parseTemplate(source, opts.file);
+    const values = props ? resolveProps(source, props, data, opts) : data;
+    return renderNodes(source, nodes, [values], opts);
+};
+
+/**
+ * Render the tags of a source reading a variable, e.g. `site.data`, a
+ * block reading it is rendered whole. The other tags are kept as is,
+ * e.g. the client-side templates of a page.
+ * @param source the source
+ * @param name the dotted path of the variable
+ * @param data the values of the variables
+ * @param opts the render options
+ * @returns the rendered source
+ * @throws {TemplateError} if a rendered block is malformed
+ */
+export const renderTemplateTags = (
+    source: string,
+    name: string,
+    data: Record<string, unknown>,
+    opts: TemplateRenderOptions,
+) => {
+    const reads = (varPath: string) =>
+        varPath === name || varPath.startsWith(`${name}.`);
+
+    let out = '';
+    let last = 0;
+    let depth = 0;
+    let open = 0;
+    let openTag = '';
+    for (const m of source.matchAll(MATCH_TAG_REGEX)) {
+        const start = m.index ?? 0;
+        const end = start + m[0].length;
+        const tag = (m[1] ?? m[2] ?? '').trim();
+        const block = MATCH_IF_REGEX.exec(tag) ?? MATCH_EACH_REGEX.exec(tag);
+
+        if (depth > 0) {
+            // the nested blocks of any kind are closed before the block
+            if (tag.startsWith('#if') || tag.startsWith('#each')) depth++;
+            else if (tag === '/if' || tag === '/each') depth--;
+            if (depth > 0) continue;
+        } else if (block && reads(block[1] ?? '')) {
+            open = start;
+            openTag = `{{${tag.split(/\s/)[0]} ${block[1]}}}`;
+            depth = 1;
+            continue;
+        } else if (MATCH_PATH_REGEX.test(tag) && reads(tag)) open = start;
+        else continue;
+
+        out += source.slice(last, open);
+        out += renderNodes(
+            source,
+            parseRange(source, opts.file, open, end),
+            [data],
+            { ...opts, partial: true },
+        );
+        last = end;
+    }
+
+    if (depth > 0)
+        throw templateError(
+            source,
+            opts.file,
+            locate(source, open),
+            `${openTag} is never closed`,
+        );
+
+    return out + source.slice(last);
+};
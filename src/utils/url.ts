@@ -0,0 +1,45 @@
+import path from 'path';
+import { type MinimalifyConfig } from '@/config/struct.js';
+
+/**
+ * Format the base path the site is served from, with a leading and a
+ * trailing slash.
+ * @param cfg the minimalify config
+ * @returns the base path, e.g. `/` or `/docs/`
+ */
+export const formatBasePath = (cfg: MinimalifyConfig) => {
+    return (cfg.base_path ?? '/').replace(/^\/*/, '/').replace(/\/*$/, '/');
+};
+
+/**
+ * Format a path relative to the out dir as url path.
+ * @param relPath the path relative to the out dir
+ * @returns the url path, without a leading slash
+ */
+const formatRelPath = (relPath: string) => {
+    return relPath.split(path.sep).join('/').replace(/^\/+/, '');
+};
+
+/**
+ * Get the public url of a page or file of the out dir.
+ * @param cfg the minimalify config
+ * @param relPath the path relative to the out dir
+ * @returns the url prefixed with the base path
+ */
+export const publicUrl = (cfg: MinimalifyConfig, relPath: string) => {
+    return `${formatBasePath(cfg)}${formatRelPath(relPath)}`;
+};
+
+/**
+ * Get the public url of an asset (css, js, images & fonts) of the out
+ * dir. Assets are served from the asset prefix when set, e.g. a CDN
+ * host, except by the dev server.
+ * @param cfg the minimalify config
+ * @param relPath the path relative to the out dir
+ * @returns the url prefixed with the asset prefix or the base path
+ */
+export const assetUrl = (cfg: MinimalifyConfig, relPath: string) => {
+    if (!cfg.asset_prefix || cfg.mode === 'dev') return publicUrl(cfg, relPath);
+
+    return `${cfg.asset_prefix.replace(/\/*$/, '/')}${formatRelPath(relPath)}`;
+};
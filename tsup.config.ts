@@ -5,7 +5,13 @@ const isDev = process.env.npm_lifecycle_event === 'dev';
 export default defineConfig({
     clean: true,
     dts: true,
-    entry: ['src/index.ts'],
+    // the page workers are loaded next to the library & cli bundles
+    entry: {
+        index: 'src/index.ts',
+        bin: 'src/bin.ts',
+        'page-worker': 'src/manager/worker/page-worker.ts',
+    },
+    shims: true,
     format: ['esm', 'cjs'],
     minify: !isDev,
     metafile: !isDev,
@@ -15,5 +21,5 @@ export default defineConfig({
     banner: {
         js: '#!/usr/bin/env node',
     },
-    onSuccess: isDev ? 'node dist/index.js' : undefined,
+    onSuccess: isDev ? 'node dist/bin.js' : undefined,
 });